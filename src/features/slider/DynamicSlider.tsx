@@ -0,0 +1,175 @@
+import React, { forwardRef, useImperativeHandle, memo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from "lucide-react";
+import { useSlider } from "./useSlider";
+import type { Item, Orientation, SliderProps, SliderRef } from "./types";
+
+// Memoized Arrow Button Component
+const ArrowButton = memo(
+  ({
+    direction,
+    onClick,
+    disabled,
+    position,
+    size,
+    orientation,
+    isRtl = false,
+    controls,
+  }: {
+    direction: "previous" | "next";
+    onClick?: React.MouseEventHandler<HTMLButtonElement>;
+    disabled?: boolean;
+    position: "inside" | "outside";
+    size: "small" | "medium" | "large";
+    orientation: Orientation;
+    isRtl?: boolean;
+    controls?: string;
+  }) => {
+    const isVertical = orientation === "vertical";
+    // In RTL the previous button sits on the right and points right
+    const isLeft = (direction === "previous") !== isRtl;
+    const Arrow = isVertical ? (direction === "previous" ? ChevronUp : ChevronDown) : isLeft ? ChevronLeft : ChevronRight;
+    const placementClass = isVertical
+      ? `left-1/2 -translate-x-1/2 ${position === "inside" ? (direction === "previous" ? "top-2" : "bottom-2") : direction === "previous" ? "-top-4" : "-bottom-4"}`
+      : `top-1/2 -translate-y-1/2 ${position === "inside" ? (isLeft ? "left-2" : "right-2") : isLeft ? "-left-4" : "-right-4"}`;
+    const sizeClass = {
+      small: "w-4 h-4",
+      medium: "w-6 h-6",
+      large: "w-8 h-8",
+    }[size];
+
+    return (
+      <motion.button
+        initial={{ opacity: 0 }}
+        animate={{ opacity: disabled ? 0 : 1 }}
+        exit={{ opacity: 0 }}
+        className={`absolute transform bg-white/80 p-2 rounded-full 
+        shadow-lg backdrop-blur-sm hover:bg-white/90 transition-colors disabled:opacity-50 
+        disabled:cursor-not-allowed z-10 ${placementClass}`}
+        onClick={onClick}
+        disabled={disabled}
+        aria-label={`${direction === "previous" ? "Previous" : "Next"} slide`}
+        aria-controls={controls}
+      >
+        <Arrow className={sizeClass} />
+      </motion.button>
+    );
+  }
+);
+
+ArrowButton.displayName = "ArrowButton";
+
+// Memoized Pagination Component
+const Pagination = memo(({ pageCount, currentPage, getButtonProps }: { pageCount: number; currentPage: number; getButtonProps: (page: number) => React.ButtonHTMLAttributes<HTMLButtonElement> }) => (
+  <div className="flex justify-center gap-2 mt-4">
+    {Array.from({ length: pageCount }, (_, page) => (
+      <button key={page} className={`h-2 rounded-full transition-all duration-300 ${page === currentPage ? "w-6 bg-blue-600" : "w-2 bg-gray-300 hover:bg-gray-400"}`} {...getButtonProps(page)} />
+    ))}
+  </div>
+));
+
+Pagination.displayName = "Pagination";
+
+// Main Slider Component
+const DynamicSliderBase = forwardRef<SliderRef, SliderProps<Item>>((props, ref) => {
+  const { component: Component, renderItem, renderPlaceholder, className = "", ...options } = props;
+  const slider = useSlider(options);
+  const { showArrows, arrowPosition, arrowSize, orientation, showPagination } = slider.config;
+
+  // Expose public API
+  useImperativeHandle(ref, () => ({
+    scrollToItem: slider.scrollToItem,
+    scrollToIndex: slider.scrollToIndex,
+    next: slider.next,
+    previous: slider.previous,
+    getCurrentIndex: () => slider.currentIndex,
+    getPageCount: () => slider.pageCount,
+    getCurrentPage: () => slider.currentPage,
+    scrollToPage: slider.scrollToPage,
+    play: slider.play,
+    pause: slider.pause,
+    isPlaying: () => slider.isPlaying,
+    refresh: slider.refresh,
+    getVisibleRange: slider.getVisibleRange,
+    isAnimating: slider.isAnimating,
+    canScrollNext: () => slider.canScrollNext,
+    canScrollPrev: () => slider.canScrollPrev,
+    on: slider.on,
+    off: slider.off,
+  }));
+
+  const previousButtonProps = slider.getPrevButtonProps();
+  const nextButtonProps = slider.getNextButtonProps();
+
+  return (
+    <div className="relative w-full contain-layout" {...slider.getRootProps()}>
+      <div className={`overflow-x-clip ${className}`}>
+        {!slider.isReady && <style {...slider.getInitialStyleProps()} />}
+        <div {...slider.getViewportProps()} className={`w-full ${slider.isVertical ? "h-full" : ""} focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500`}>
+          <div {...slider.getTrackProps()} className={slider.isVertical ? "w-full h-full" : "items-center justify-center"}>
+            {slider.slides.map(({ key, position, index, cells, progress, isSelected }) => {
+              const renderCell = ({ index: itemIndex, item, width, height }: (typeof cells)[number]) =>
+                !item
+                  ? renderPlaceholder?.(itemIndex)
+                  : renderItem
+                    ? renderItem(item, { index: itemIndex, position, isCurrent: index === slider.currentIndex, itemWidth: width, height, progress, isSelected })
+                    : Component && <Component item={item} itemWidth={width} height={height} progress={progress} isSelected={isSelected} />;
+
+              return (
+                <div key={key} {...slider.getSlideProps(position)}>
+                  <div {...slider.getSlideContentProps()}>
+                    {slider.rows > 1 ? (
+                      <div {...slider.getCellGroupProps()}>
+                        {cells.map((cell) => (
+                          <div key={cell.item?.id ?? `placeholder:${cell.index}`} {...slider.getCellProps()}>
+                            {renderCell(cell)}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      cells[0] && renderCell(cells[0])
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="sr-only" {...slider.getLiveRegionProps()} />
+
+        {slider.isReady && showArrows && slider.itemCount > slider.visibleItems && (
+          <AnimatePresence>
+            <ArrowButton
+              direction="previous"
+              onClick={previousButtonProps.onClick}
+              disabled={previousButtonProps.disabled}
+              position={arrowPosition!}
+              size={arrowSize!}
+              orientation={orientation!}
+              isRtl={slider.isRtl}
+              controls={previousButtonProps["aria-controls"]}
+            />
+            <ArrowButton
+              direction="next"
+              onClick={nextButtonProps.onClick}
+              disabled={nextButtonProps.disabled}
+              position={arrowPosition!}
+              size={arrowSize!}
+              orientation={orientation!}
+              isRtl={slider.isRtl}
+              controls={nextButtonProps["aria-controls"]}
+            />
+          </AnimatePresence>
+        )}
+
+        {slider.isReady && showPagination && slider.pageCount > 1 && <Pagination pageCount={slider.pageCount} currentPage={slider.currentPage} getButtonProps={slider.getPageButtonProps} />}
+      </div>
+    </div>
+  );
+});
+
+DynamicSliderBase.displayName = "DynamicSlider";
+
+// forwardRef drops the item type parameter, so restore it to keep `renderItem` and `getItemSize` typed against the items
+export const DynamicSlider = DynamicSliderBase as <T extends Item>(props: SliderProps<T> & React.RefAttributes<SliderRef>) => React.ReactElement | null;
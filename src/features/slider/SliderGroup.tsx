@@ -0,0 +1,19 @@
+import React, { useState, useCallback, useMemo } from "react";
+import { SliderGroupContext } from "./useSlider";
+
+// Links the sliders inside it, e.g. a gallery and its thumbnail strip; the selected index can be controlled like a slider's
+export const SliderGroup = ({ children, index, defaultIndex = 0, onIndexChange }: { children: React.ReactNode; index?: number; defaultIndex?: number; onIndexChange?: (index: number) => void }) => {
+  const [uncontrolledIndex, setUncontrolledIndex] = useState(defaultIndex);
+  const selectedIndex = index ?? uncontrolledIndex;
+
+  const select = useCallback(
+    (nextIndex: number) => {
+      if (index === undefined) setUncontrolledIndex(nextIndex);
+      onIndexChange?.(nextIndex);
+    },
+    [index, onIndexChange]
+  );
+
+  const value = useMemo(() => ({ index: selectedIndex, select }), [selectedIndex, select]);
+  return <SliderGroupContext.Provider value={value}>{children}</SliderGroupContext.Provider>;
+};
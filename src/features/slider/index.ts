@@ -0,0 +1,4 @@
+export { useSlider } from "./useSlider";
+export { DynamicSlider } from "./DynamicSlider";
+export { SliderGroup } from "./SliderGroup";
+export type * from "./types";
@@ -0,0 +1,278 @@
+import type React from "react";
+
+// Core types
+export interface Item {
+  id: string | number;
+  [key: string]: any;
+}
+
+// Nested config objects can be given partially; functions and arrays are taken whole
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends (...args: never[]) => unknown ? T[K] : T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+// Fields that decide which breakpoint applies can't themselves change per breakpoint
+export type BreakpointConfig = Omit<DeepPartial<SliderConfig>, "orientation" | "breakpoints" | "breakpointBasis" | "responsiveBreakpoints">;
+
+export interface ResponsiveBreakpoint {
+  // Applies from this width up; matching breakpoints layer their overrides from the smallest width to the largest
+  width: number;
+  items?: number;
+  config?: BreakpointConfig;
+}
+
+export interface Breakpoints {
+  large?: number;
+  medium?: number;
+  small?: number;
+}
+
+export interface AutoplayConfig {
+  // Whether autoplay starts on mount; play() can still start it when false
+  enabled: boolean;
+  interval?: number;
+  direction?: "forward" | "backward";
+  pauseOnHover?: boolean;
+  pauseOnFocus?: boolean;
+  stopOnInteraction?: boolean;
+}
+
+export interface DragConfig {
+  // Project fast swipes across multiple items based on release velocity
+  momentum?: boolean;
+  // Per-frame velocity decay used for the projection (0..1, higher glides further)
+  friction?: number;
+  // Rubber-band resistance past the first/last item; 0 hard-clamps the track
+  overscroll?: number;
+}
+
+export interface UrlSyncConfig {
+  // Search or hash parameter holding the slide; give every synced slider on a page its own
+  param: string;
+  // "hash" keeps its parameters in the fragment (`#gallery=3&other=1`); a fragment holding an anchor (`#reviews`) is
+  // neither read nor overwritten, so the slide isn't synced while the page sits at one
+  mode?: "hash" | "search";
+  // Store the item id instead of the index (ids are matched as strings)
+  key?: "index" | "id";
+  // "push" adds a history entry per slide change so back/forward step through slides
+  history?: "replace" | "push";
+}
+
+export interface WheelConfig {
+  enabled: boolean;
+  // "main" only follows wheel movement along the slider's axis so page scrolling passes through; "both" takes either axis
+  axis?: "main" | "both";
+  // Multiplier for wheel deltas
+  sensitivity?: number;
+  // Every gesture moves exactly one step instead of following the wheel and snapping to the nearest item
+  forceSnap?: boolean;
+}
+
+export interface ImpressionConfig {
+  enabled: boolean;
+  // Share of a slide (0..1) that has to be inside the viewport to count as seen
+  threshold?: number;
+  // How long it has to stay there (ms)
+  minDwell?: number;
+  // Items are reported once per browser session and key; sliders showing the same items in different placements need their own
+  sessionKey?: string;
+  // Events are handed to the reporter once this many are queued, or after `flushInterval` ms, or when the page is hidden
+  batchSize?: number;
+  flushInterval?: number;
+}
+
+export interface ImpressionDetails {
+  index: number;
+  visibleRatio: number;
+  // Time the slide had been in view when the impression was recorded (ms)
+  dwellMs: number;
+}
+
+export interface ImpressionEvent extends ImpressionDetails {
+  itemId: string | number;
+  sessionKey: string;
+  timestamp: number;
+}
+
+// Receives impressions in batches; sliders sharing a reporter share its batches
+export type ImpressionReporter = (events: ImpressionEvent[]) => void;
+
+export interface GridConfig {
+  rows?: number;
+  fill?: "row" | "column";
+}
+
+export type Orientation = "horizontal" | "vertical";
+export type Direction = "ltr" | "rtl";
+export type Alignment = "start" | "center" | "end";
+
+// What an effect knows about a rendered slide; offsets and distances are along the main axis, before RTL mirroring
+export interface SlideEffectContext {
+  index: number;
+  // Distance from the current slide in slides, clamped to -1..1
+  progress: number;
+  // Unclamped distance from the current slide in slides
+  distance: number;
+  // Distance in px between the slide and the place the current slide rests at
+  offset: number;
+  isVertical: boolean;
+  isRtl: boolean;
+}
+
+// Returns the style for a slide; a transform is applied on top of the slide's own translate
+export type SlideEffect = (context: SlideEffectContext) => React.CSSProperties;
+
+export interface SliderConfig {
+  // Vertical sliders take their main-axis size from the container height, so give it one via className
+  orientation?: Orientation;
+  // "auto" sizes each slide to its content along the main axis and measures it after render
+  itemSizing?: "uniform" | "auto";
+  // Defaults to the computed `dir` of the container; only affects horizontal sliders
+  direction?: Direction;
+  // Where the current slide sits in the viewport
+  align?: Alignment;
+  // Centers the current slide with its neighbors peeking on both sides; implies `align: "center"` and `peek`
+  centerMode?: boolean;
+  // Trims the ends so no empty space shows before the first or after the last slide; ignored when looping
+  containScroll?: boolean;
+  // "fade" and "stack" pin slides onto the current one, so they are meant for one visible item
+  effect?: "slide" | "fade" | "coverflow" | "stack" | SlideEffect;
+  peek?: boolean;
+  peekAmount?: number | string;
+  gap: number;
+  showArrows?: boolean;
+  arrowPosition?: "inside" | "outside";
+  arrowSize?: "small" | "medium" | "large";
+  enableDrag?: boolean;
+  dragThreshold: number;
+  breakpoints?: Breakpoints;
+  // "viewport" matches breakpoints against the window width instead of the slider's own main-axis size
+  breakpointBasis?: "container" | "viewport";
+  springConfig: {
+    stiffness: number;
+    damping: number;
+    mass: number;
+  };
+  virtualization?: {
+    enabled: boolean;
+    overscan?: number;
+  };
+  responsiveBreakpoints?: ResponsiveBreakpoint[];
+  loop?: boolean;
+  autoplay?: AutoplayConfig;
+  drag?: DragConfig;
+  wheel?: WheelConfig;
+  urlSync?: UrlSyncConfig;
+  impressions?: ImpressionConfig;
+  slidesToScroll?: number | "page";
+  showPagination?: boolean;
+  // How many items before the last loaded one `onReachEnd` fires
+  reachEndThreshold?: number;
+  // Track height for horizontal sliders: the tallest rendered slide, the tallest slide in view (animated) or fixed px.
+  // Except for "adaptive", slides are stretched to the track height
+  height?: "equal" | "adaptive" | number;
+  // Items stacked in each slide. With more than one row the slides are columns of items, and indices, pages and
+  // `onSlideChange` count columns; `scrollToItem` finds the column holding the item
+  rows?: number;
+  // `rows` plus the fill order: "column" runs items down each column, "row" fills each page (`visibleItems` columns)
+  // row by row so it reads like a table. Takes precedence over `rows`
+  grid?: GridConfig;
+}
+
+// Props passed to `component`; main-axis sizes stay undefined until a content-sized slide has been measured
+export interface SlideComponentProps<T extends Item = Item> {
+  item: T;
+  itemWidth: number | undefined;
+  // Cross-axis height from the `height` strategy (undefined when "adaptive"). Slides are measured at their natural height, so
+  // don't size content from it; under "equal" or a fixed height the slide is stretched, so fill it with CSS (e.g. `h-full`)
+  height: number | undefined;
+  // Distance of the slide from the current one in slides, clamped to -1..1 and live while dragging or animating
+  progress: number;
+  // Whether the item is the selected one of the enclosing SliderGroup, or the current one outside a group
+  isSelected: boolean;
+}
+
+export interface SlideRenderContext extends Omit<SlideComponentProps, "item"> {
+  index: number;
+  // Track position, which differs from index while looping
+  position: number;
+  isCurrent: boolean;
+}
+
+export interface SliderProps<T extends Item> {
+  items: T[];
+  config?: DeepPartial<SliderConfig>;
+  onSlideChange?: (currentIndex: number) => void;
+  onDragStart?: () => void;
+  onDragEnd?: () => void;
+  // Fires with the current index once the track comes to rest after a transition
+  onSettle?: (index: number) => void;
+  onAutoplayStateChange?: (isPlaying: boolean) => void;
+  // Controlled mode: the slider shows `index` and only requests changes through `onIndexChange`
+  index?: number;
+  onIndexChange?: (index: number) => void;
+  // Main-axis size of an item in px; takes precedence over `itemSizing` (keep it stable, e.g. with useCallback)
+  getItemSize?: (item: T) => number;
+  // Incremental loading: the track is sized for `totalCount` and unloaded indices render `renderPlaceholder`
+  totalCount?: number;
+  onReachEnd?: () => void;
+  renderPlaceholder?: (index: number) => React.ReactNode;
+  // Fires whenever the set of slides at least `impressions.threshold` in view changes, without waiting for the dwell time
+  onItemsVisible?: (items: T[]) => void;
+  // Fires once per item and session when `impressions` is enabled; see ImpressionConfig
+  onItemImpression?: (item: T, details: ImpressionDetails) => void;
+  // Defaults to writing the batches through the build's logger
+  impressionReporter?: ImpressionReporter;
+  defaultIndex?: number;
+  className?: string;
+  ariaLabel?: string;
+  component?: React.ComponentType<SlideComponentProps<T>>;
+  // Alternative to `component` with full control over the slide markup; takes precedence when both are given
+  renderItem?: (item: T, context: SlideRenderContext) => React.ReactNode;
+  // Inside a SliderGroup: "main" sliders show the group's selected index (overriding `index`), while a "navigator"
+  // scrolls on its own, highlights the selected item, keeps it in view and selects items on click
+  groupRole?: "main" | "navigator";
+}
+
+// Everything but the rendering props; `useSlider` leaves the markup to the caller
+export type UseSliderOptions<T extends Item> = Omit<SliderProps<T>, "component" | "renderItem" | "renderPlaceholder" | "className">;
+
+export interface SliderEvents {
+  select: (index: number) => void;
+  // Runs 0..1 from the first to the last resting place (one lap when looping), live while dragging or animating
+  scroll: (progress: number) => void;
+  settle: (index: number) => void;
+  dragStart: () => void;
+  dragEnd: () => void;
+  // Viewport size in px
+  resize: (size: { width: number; height: number }) => void;
+  // The current index arrived at the first or last resting place; never fires while looping
+  reachEdge: (edge: "start" | "end") => void;
+}
+
+export type SliderEventName = keyof SliderEvents;
+
+export interface SliderRef {
+  // Navigation resolves once the track settles and rejects with an "AbortError" when another navigation, a drag or
+  // the wheel takes over first
+  scrollToItem: (itemId: string | number) => Promise<void>;
+  scrollToIndex: (index: number) => Promise<void>;
+  next: () => Promise<void>;
+  previous: () => Promise<void>;
+  getCurrentIndex: () => number;
+  getPageCount: () => number;
+  getCurrentPage: () => number;
+  scrollToPage: (page: number) => Promise<void>;
+  refresh: () => void;
+  play: () => void;
+  pause: () => void;
+  isPlaying: () => boolean;
+  // First and last slide at least partly in view, inclusive; while looping `end` can wrap around below `start`
+  getVisibleRange: () => { start: number; end: number };
+  isAnimating: () => boolean;
+  canScrollNext: () => boolean;
+  canScrollPrev: () => boolean;
+  // Returns a function that unsubscribes
+  on: <E extends SliderEventName>(event: E, handler: SliderEvents[E]) => () => void;
+  off: <E extends SliderEventName>(event: E, handler: SliderEvents[E]) => void;
+}
@@ -0,0 +1,1970 @@
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useId, useMemo, createContext, useContext } from "react";
+import { useReducedMotion } from "framer-motion";
+import throttle from "lodash.throttle";
+import logger from "logger";
+import type {
+  Item,
+  DeepPartial,
+  SliderConfig,
+  Breakpoints,
+  ResponsiveBreakpoint,
+  SlideEffect,
+  SlideEffectContext,
+  ImpressionEvent,
+  ImpressionReporter,
+  SliderEvents,
+  SliderEventName,
+  UseSliderOptions,
+  Direction,
+} from "./types";
+
+const defaultConfig: SliderConfig = {
+  orientation: "horizontal",
+  itemSizing: "uniform",
+  align: "start",
+  centerMode: false,
+  containScroll: true,
+  effect: "slide",
+  peek: false,
+  peekAmount: "20%",
+  gap: 24,
+  showArrows: true,
+  arrowPosition: "inside",
+  arrowSize: "medium",
+  enableDrag: true,
+  dragThreshold: 0.2,
+  drag: {
+    momentum: true,
+    friction: 0.92,
+    overscroll: 0.55,
+  },
+  wheel: {
+    enabled: false,
+    axis: "main",
+    sensitivity: 1,
+    forceSnap: false,
+  },
+  impressions: {
+    enabled: false,
+    threshold: 0.5,
+    minDwell: 1000,
+    sessionKey: "slider",
+    batchSize: 20,
+    flushInterval: 5000,
+  },
+  breakpoints: {
+    large: 4,
+    medium: 3,
+    small: 1,
+  },
+  breakpointBasis: "container",
+  springConfig: {
+    stiffness: 150,
+    damping: 25,
+    mass: 1,
+  },
+  virtualization: {
+    enabled: true,
+    overscan: 2,
+  },
+  loop: false,
+  slidesToScroll: 1,
+  showPagination: false,
+  reachEndThreshold: 3,
+  height: "equal",
+  rows: 1,
+  autoplay: {
+    enabled: false,
+    interval: 5000,
+    direction: "forward",
+    pauseOnHover: true,
+    pauseOnFocus: true,
+    stopOnInteraction: false,
+  },
+};
+
+// Default for an omitted config prop; a shared object keeps the merged config memoized across renders
+const emptyConfig: DeepPartial<SliderConfig> = {};
+
+// Pointer travel (px) after which a press is locked to an axis; a claimed drag also swallows the click on slide content
+const DRAG_INTENT_THRESHOLD = 6;
+
+// useLayoutEffect warns during server rendering; in the browser it lets measurements land before the first paint
+const useIsomorphicLayoutEffect = typeof window !== "undefined" ? useLayoutEffect : useEffect;
+
+// Quiet time after which a wheel gesture counts as finished and snaps (ms)
+const WHEEL_GESTURE_GAP = 150;
+
+// A spring counts as settled once it is this close to its target (px) and this slow (px/s)
+const SPRING_REST_DELTA = 0.5;
+const SPRING_REST_SPEED = 10;
+
+// Listeners behind `SliderRef.on`/`off`, one registry per slider
+const createSliderEvents = () => {
+  const listeners = new Map<SliderEventName, Set<SliderEvents[SliderEventName]>>();
+
+  const off = <E extends SliderEventName>(event: E, handler: SliderEvents[E]) => {
+    listeners.get(event)?.delete(handler);
+  };
+
+  const on = <E extends SliderEventName>(event: E, handler: SliderEvents[E]) => {
+    let handlers = listeners.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      listeners.set(event, handlers);
+    }
+    handlers.add(handler);
+    return () => off(event, handler);
+  };
+
+  const emit = <E extends SliderEventName>(event: E, ...args: Parameters<SliderEvents[E]>) => {
+    listeners.get(event)?.forEach((handler) => (handler as (...args: Parameters<SliderEvents[E]>) => void)(...args));
+  };
+
+  return { on, off, emit };
+};
+
+// Pointer events a slider has claimed for its drag, so enclosing sliders further up the tree leave them alone
+const claimedPointerEvents = new WeakSet<Event>();
+
+// Elastic distance for dragging `distance` px past an edge, approaching `dimension` asymptotically
+const rubberBand = (distance: number, dimension: number, resistance: number) => {
+  if (!resistance || !dimension) return 0;
+  return (1 - 1 / ((distance * resistance) / dimension + 1)) * dimension;
+};
+
+// Maps any (possibly negative) track position onto an index inside the items array
+const normalizeIndex = (index: number, length: number) => {
+  if (length === 0) return 0;
+  return ((index % length) + length) % length;
+};
+
+// Main-axis translate, mirrored the same way as the track
+const translateMain = (distance: number, { isVertical, isRtl }: SlideEffectContext) => (isVertical ? `translateY(${distance}px)` : `translateX(${isRtl ? -distance : distance}px)`);
+
+// Built-in effects; the default "slide" effect is the track translate alone
+const slideEffects: Record<"fade" | "coverflow" | "stack", SlideEffect> = {
+  fade: (context) => {
+    const isCurrent = Math.abs(context.progress) < 0.5;
+    return {
+      transform: translateMain(-context.offset, context),
+      opacity: 1 - Math.abs(context.progress),
+      zIndex: isCurrent ? 1 : 0,
+      pointerEvents: isCurrent ? "auto" : "none",
+    };
+  },
+  coverflow: (context) => {
+    const rotation = context.progress * 45 * (context.isRtl ? -1 : 1);
+    return {
+      transform: `perspective(1000px) ${context.isVertical ? `rotateX(${rotation}deg)` : `rotateY(${-rotation}deg)`} scale(${1 - Math.abs(context.progress) * 0.2})`,
+      zIndex: Math.max(0, 100 - Math.round(Math.abs(context.distance) * 10)),
+    };
+  },
+  stack: (context) => {
+    // Passed slides leave with the track; upcoming ones pile up behind the current one
+    if (context.distance <= 0) return { zIndex: 100 };
+
+    const depth = Math.min(context.distance, 3);
+    return {
+      transform: `${translateMain(-context.offset + depth * 16, context)} scale(${1 - depth * 0.06})`,
+      zIndex: Math.max(0, 100 - Math.round(context.distance * 10)),
+      opacity: context.distance > 3 ? 0 : 1,
+    };
+  },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Merges nested config objects key by key so an override only replaces the fields it sets; undefined fields are skipped
+const mergeConfig = <T extends object>(base: T, override?: DeepPartial<T>): T => {
+  if (!override) return base;
+
+  const merged = { ...base } as Record<string, unknown>;
+  Object.entries(override).forEach(([key, value]) => {
+    if (value === undefined) return;
+    const baseValue = merged[key];
+    merged[key] = isPlainObject(baseValue) && isPlainObject(value) ? mergeConfig(baseValue, value) : value;
+  });
+  return merged as T;
+};
+
+// A fragment the slider may manage: empty or `key=value` pairs. Anything else (`#reviews`) is an in-page anchor
+const isParamFragment = (fragment: string) => /^([^=&]+=[^&]*(&[^=&]+=[^&]*)*)?$/.test(fragment);
+
+const readUrlParam = (mode: "hash" | "search", param: string) => {
+  if (typeof window === "undefined") return null;
+  const fragment = window.location.hash.slice(1);
+  if (mode === "hash" && !isParamFragment(fragment)) return null;
+  return new URLSearchParams(mode === "hash" ? fragment : window.location.search).get(param);
+};
+
+// Updates one parameter and leaves the rest of the URL, including other sliders' parameters, alone. A fragment holding
+// an anchor is left as it is, so the slide isn't written while one is there
+const writeUrlParam = (mode: "hash" | "search", param: string, value: string, history: "replace" | "push") => {
+  const url = new URL(window.location.href);
+  if (mode === "hash") {
+    if (!isParamFragment(url.hash.slice(1))) return;
+    const params = new URLSearchParams(url.hash.slice(1));
+    params.set(param, value);
+    url.hash = params.toString();
+  } else {
+    url.searchParams.set(param, value);
+  }
+
+  if (url.href === window.location.href) return;
+  if (history === "push") window.history.pushState(window.history.state, "", url);
+  else window.history.replaceState(window.history.state, "", url);
+};
+
+// Items already reported, per session key; mirrored into sessionStorage so a reload in the same tab doesn't report them again
+const seenImpressions = new Map<string, Set<string>>();
+
+const getSeenImpressions = (sessionKey: string) => {
+  let seen = seenImpressions.get(sessionKey);
+  if (!seen) {
+    let stored: string[] = [];
+    try {
+      stored = JSON.parse(window.sessionStorage.getItem(`slider-impressions:${sessionKey}`) ?? "[]");
+    } catch {
+      // Storage disabled or unreadable: de-duplicate for this page only
+    }
+    seen = new Set(stored);
+    seenImpressions.set(sessionKey, seen);
+  }
+  return seen;
+};
+
+const markImpressionSeen = (sessionKey: string, itemId: string | number) => {
+  const seen = getSeenImpressions(sessionKey);
+  seen.add(String(itemId));
+  try {
+    window.sessionStorage.setItem(`slider-impressions:${sessionKey}`, JSON.stringify([...seen]));
+  } catch {
+    // The in-memory set still de-duplicates
+  }
+};
+
+// Intersection ratios at which the slider's share of the page viewport is re-read for impressions
+const IMPRESSION_RATIO_STEPS = Array.from({ length: 21 }, (_, step) => step / 20);
+
+const defaultImpressionReporter: ImpressionReporter = (events) => logger(`[slider] ${events.length} impression(s) ${JSON.stringify(events)}`);
+
+// Queue per reporter, flushed when full, after a quiet interval or on demand
+const impressionQueues = new WeakMap<ImpressionReporter, { events: ImpressionEvent[]; timer?: number }>();
+
+const flushImpressions = (reporter: ImpressionReporter) => {
+  const queue = impressionQueues.get(reporter);
+  if (!queue) return;
+
+  window.clearTimeout(queue.timer);
+  queue.timer = undefined;
+  if (!queue.events.length) return;
+
+  const events = queue.events;
+  queue.events = [];
+  reporter(events);
+};
+
+const queueImpression = (reporter: ImpressionReporter, event: ImpressionEvent, batchSize: number, flushInterval: number) => {
+  let queue = impressionQueues.get(reporter);
+  if (!queue) {
+    queue = { events: [] };
+    impressionQueues.set(reporter, queue);
+  }
+
+  queue.events.push(event);
+  if (queue.events.length >= batchSize) flushImpressions(reporter);
+  else if (queue.timer === undefined) queue.timer = window.setTimeout(() => flushImpressions(reporter), flushInterval);
+};
+
+// Columns needed for `cellCount` items; with "row" fill a page is only as wide as its own items on the last page
+const getColumnCount = (cellCount: number, rows: number, fill: "row" | "column", pageColumns: number) => {
+  if (fill === "column") return Math.ceil(cellCount / rows);
+
+  const pageSize = rows * pageColumns;
+  const fullPages = Math.floor(cellCount / pageSize);
+  return fullPages * pageColumns + Math.min(pageColumns, cellCount - fullPages * pageSize);
+};
+
+// Item indices in a column, top to bottom
+const getColumnCells = (column: number, cellCount: number, rows: number, fill: "row" | "column", pageColumns: number) =>
+  Array.from({ length: rows }, (_, row) => {
+    if (fill === "column") return column * rows + row;
+
+    const page = Math.floor(column / pageColumns);
+    const pageSize = rows * pageColumns;
+    // The last page holds fewer items, so its rows are only as wide as its column count
+    const rowLength = Math.min(pageColumns, cellCount - page * pageSize);
+    return page * pageSize + row * rowLength + (column % pageColumns);
+  }).filter((index) => index < cellCount);
+
+const getItemColumn = (itemIndex: number, cellCount: number, rows: number, fill: "row" | "column", pageColumns: number) => {
+  if (fill === "column") return Math.floor(itemIndex / rows);
+
+  const pageSize = rows * pageColumns;
+  const page = Math.floor(itemIndex / pageSize);
+  const rowLength = Math.min(pageColumns, cellCount - page * pageSize);
+  return page * pageColumns + ((itemIndex - page * pageSize) % rowLength);
+};
+
+const getVisibleItemsEnhanced = (width: number, breakpoints?: Breakpoints, responsiveBreakpoints?: ResponsiveBreakpoint[]) => {
+  const sizedBreakpoints = responsiveBreakpoints?.filter((bp) => bp.items !== undefined) ?? [];
+  if (sizedBreakpoints.length) {
+    const sortedBreakpoints = [...sizedBreakpoints].sort((a, b) => b.width - a.width);
+    const matchingBreakpoint = sortedBreakpoints.find((bp) => width >= bp.width);
+    if (matchingBreakpoint) {
+      return matchingBreakpoint.items!;
+    }
+    return sortedBreakpoints[sortedBreakpoints.length - 1]?.items ?? 1;
+  }
+
+  const defaultBreakpoints = {
+    large: width >= 1280 ? 4 : 3,
+    medium: width >= 768 ? 3 : 2,
+    small: width >= 640 ? 2 : 1,
+  };
+
+  const mergedBreakpoints = { ...defaultBreakpoints, ...breakpoints };
+
+  if (width >= 1280) return mergedBreakpoints.large ?? 4;
+  if (width >= 1024) return mergedBreakpoints.large ?? 3;
+  if (width >= 768) return mergedBreakpoints.medium ?? 3;
+  if (width >= 640) return mergedBreakpoints.small ?? 2;
+  return mergedBreakpoints.small ?? 1;
+};
+
+// Config and item count for a breakpoint basis width, with the overrides of every matching breakpoint applied
+const resolveResponsiveConfig = (width: number, config: SliderConfig) => {
+  const matchingBreakpoints = [...(config.responsiveBreakpoints ?? [])].filter((bp) => width >= bp.width).sort((a, b) => a.width - b.width);
+  const resolvedConfig = matchingBreakpoints.reduce<SliderConfig>((resolved, bp) => mergeConfig<SliderConfig>(resolved, bp.config), config);
+
+  return { config: resolvedConfig, visibleItems: getVisibleItemsEnhanced(width, config.breakpoints, config.responsiveBreakpoints) };
+};
+
+// CSS for the layout before the container has been measured (server render, first client render). Every breakpoint
+// becomes a container (or media) query that sets the slide size, gap and peek the measured layout will arrive at
+const getInitialLayoutCss = (selector: string, config: SliderConfig, isVertical: boolean) => {
+  const unit = isVertical ? "cqb" : "cqi";
+  const query = config.breakpointBasis === "viewport" ? "@media (min-width" : `@container (min-${isVertical ? "height" : "width"}`;
+  const thresholds = [...new Set([0, 640, 768, 1024, 1280, ...(config.responsiveBreakpoints ?? []).map((bp) => bp.width)])].sort((a, b) => a - b);
+  let maxVisibleItems = 1;
+
+  const rules = thresholds.map((width) => {
+    const { config: resolved, visibleItems } = resolveResponsiveConfig(width, config);
+    maxVisibleItems = Math.max(maxVisibleItems, visibleItems);
+
+    const gaps = `${(visibleItems - 1) * resolved.gap}px`;
+    const peekAmount = resolved.peek || resolved.centerMode ? resolved.peekAmount : undefined;
+    const peek =
+      typeof peekAmount === "number"
+        ? `${peekAmount}px`
+        : typeof peekAmount === "string" && peekAmount.endsWith("%")
+          ? `calc((100${unit} - ${gaps}) / ${visibleItems} * ${parseFloat(peekAmount) / 100})`
+          : "0px";
+    const declarations = `${selector} { --slide-gap: ${resolved.gap}px; --slide-peek: ${peek}; --slide-size: calc((100${unit} - 2 * ${peek} - ${gaps}) / ${visibleItems}); }`;
+
+    return width ? `${query}: ${width}px) { ${declarations} }` : declarations;
+  });
+
+  return { css: rules.join("\n"), maxVisibleItems };
+};
+
+// Shared selection of the sliders in a SliderGroup. Only user-driven changes are published, and sliders follow the
+// selection like a controlled index, so linked sliders never echo each other's updates
+export const SliderGroupContext = createContext<{ index: number; select: (index: number) => void } | null>(null);
+
+// Headless slider: all state and behaviour, exposed through prop getters so any markup can render it
+export const useSlider = <T extends Item>(options: UseSliderOptions<T>) => {
+  const {
+    items,
+    config = emptyConfig,
+    onSlideChange,
+    onDragStart,
+    onDragEnd,
+    onSettle,
+    onAutoplayStateChange,
+    index: indexProp,
+    onIndexChange: onIndexChangeProp,
+    getItemSize: getCustomItemSize,
+    totalCount,
+    onReachEnd,
+    onItemsVisible,
+    onItemImpression,
+    impressionReporter = defaultImpressionReporter,
+    defaultIndex = 0,
+    ariaLabel = "Carousel",
+    groupRole = "main",
+  } = options;
+
+  const group = useContext(SliderGroupContext);
+  const isNavigator = !!group && groupRole === "navigator";
+  // Main sliders of a group are controlled by it
+  const controlledIndex = group && !isNavigator ? group.index : indexProp;
+  const onIndexChange = useCallback(
+    (index: number) => {
+      if (group && !isNavigator) group.select(index);
+      onIndexChangeProp?.(index);
+    },
+    [group, isNavigator, onIndexChangeProp]
+  );
+
+  // Width the breakpoints are matched against; see `breakpointBasis`
+  const [breakpointWidth, setBreakpointWidth] = useState(0);
+  // Memoized on the config prop so nested objects keep their identity across the slider's own re-renders
+  const baseConfig = useMemo(() => mergeConfig(defaultConfig, config), [config]);
+  const { config: sliderConfig, visibleItems } = useMemo(() => resolveResponsiveConfig(breakpointWidth, baseConfig), [breakpointWidth, baseConfig]);
+  const {
+    orientation,
+    itemSizing,
+    direction,
+    align,
+    centerMode,
+    containScroll,
+    effect,
+    peek: peekOption,
+    peekAmount,
+    gap,
+    enableDrag,
+    dragThreshold,
+    drag,
+    wheel,
+    urlSync,
+    impressions,
+    breakpointBasis,
+    springConfig,
+    virtualization,
+    loop,
+    autoplay,
+    slidesToScroll,
+    reachEndThreshold,
+    height: heightStrategy,
+    rows: rowsOption,
+    grid,
+  } = sliderConfig;
+  // Center mode needs something to peek at on both sides
+  const peek = !!peekOption || !!centerMode;
+  const alignment = centerMode ? "center" : (align ?? "start");
+  const isTrackingVisibility = !!impressions?.enabled || !!onItemsVisible;
+
+  // State declarations
+  // Sizes along the main axis (width when horizontal, height when vertical) unless noted otherwise
+  const [containerSize, setContainerSize] = useState(0);
+  const [containerCrossSize, setContainerCrossSize] = useState(0);
+  const [detectedDirection, setDetectedDirection] = useState<Direction>("ltr");
+  const [currentIndex, setCurrentIndex] = useState(controlledIndex ?? defaultIndex);
+  const [isDragging, setIsDragging] = useState(false);
+  const [sliderOffset, setSliderOffset] = useState(0);
+  const [, setPreventScroll] = useState(false);
+  const [visibleRange, setVisibleRange] = useState({ start: 0, end: 0 });
+  // Heights of the rendered slides by track position
+  const [slideHeights, setSlideHeights] = useState<Record<string, number>>({});
+  const [measuredSizes, setMeasuredSizes] = useState<Record<string | number, number>>({});
+  const [isAutoplayPlaying, setIsAutoplayPlaying] = useState(!!autoplay?.enabled);
+  const [isHovered, setIsHovered] = useState(false);
+  const [isFocused, setIsFocused] = useState(false);
+  const [isDocumentHidden, setIsDocumentHidden] = useState(false);
+
+  // Refs
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef(0);
+  const dragCurrentRef = useRef(0);
+  const dragOriginOffsetRef = useRef(0);
+  const dragSamplesRef = useRef<{ position: number; time: number }[]>([]);
+  const activePointerRef = useRef<number | null>(null);
+  const suppressClickRef = useRef(false);
+  const isDragClaimedRef = useRef(false);
+  const gestureOriginRef = useRef({ x: 0, y: 0 });
+  const animationRef = useRef<number>(0);
+  const isAnimatingRef = useRef(false);
+  // The promise of the latest SliderRef navigation, until the track settles or something else takes over
+  const navigationRef = useRef<{ resolve: () => void; reject: (reason: unknown) => void; isAwaitingCommit: boolean } | null>(null);
+  const springRef = useRef({ position: 0, velocity: 0 });
+  const targetOffsetRef = useRef(0);
+  const autoplayStateRef = useRef(isAutoplayPlaying);
+  const pendingIndexRef = useRef<number | null>(null);
+  const wasControlledRef = useRef(controlledIndex !== undefined);
+  const trackId = useId();
+  const [events] = useState(createSliderEvents);
+  const prefersReducedMotion = useReducedMotion();
+
+  const isVertical = orientation === "vertical";
+  // Offsets stay in logical (start-to-end) space; RTL only mirrors them on the way to and from the screen
+  const isRtl = !isVertical && (direction ?? detectedDirection) === "rtl";
+  const axisSign = isRtl ? -1 : 1;
+
+  // Calculate peek width
+  const calculatePeekSize = useCallback(
+    (width: number) => {
+      if (!peek) return 0;
+      if (typeof peekAmount === "number") return peekAmount;
+      if (typeof peekAmount === "string" && peekAmount.endsWith("%")) {
+        const itemSize = (width - (visibleItems - 1) * gap) / visibleItems;
+        return (itemSize * parseFloat(peekAmount)) / 100;
+      }
+      return 0;
+    },
+    [peek, peekAmount, visibleItems, gap]
+  );
+
+  const peekSize = calculatePeekSize(containerSize);
+
+  // Calculate item width
+  const getItemSize = useCallback(() => {
+    if (!containerSize) return 0;
+    const peekSpace = peek ? peekSize * 2 : 0;
+    const availableWidth = containerSize - peekSpace;
+    return (availableWidth - gap * (visibleItems - 1)) / visibleItems;
+  }, [containerSize, peek, peekSize, gap, visibleItems]);
+
+  // Indices past the loaded items are placeholders until they arrive
+  const cellCount = Math.max(items.length, totalCount ?? 0);
+  const rows = Math.max(1, Math.floor(grid?.rows ?? rowsOption ?? 1));
+  const gridFill = grid?.fill ?? "column";
+  const pageColumns = Math.max(1, Math.floor(visibleItems));
+  // Track slots: items, or columns of items when there are several rows
+  const itemCount = getColumnCount(cellCount, rows, gridFill, pageColumns);
+  const getCells = useCallback((column: number) => getColumnCells(column, cellCount, rows, gridFill, pageColumns), [cellCount, rows, gridFill, pageColumns]);
+
+  const isAutoSized = !getCustomItemSize && itemSizing === "auto";
+  const isVariableSize = !!getCustomItemSize || isAutoSized;
+  const availableSize = containerSize - (peek ? peekSize * 2 : 0);
+
+  // Main-axis size of the slide at an index: custom, measured (estimated as uniform until then) or uniform.
+  // A column is as wide as its widest item and is measured under its first item's id
+  const getSlideSize = useCallback(
+    (index: number) => {
+      const cellItems = getCells(index).flatMap((cellIndex) => (cellIndex < items.length ? [items[cellIndex]] : []));
+      if (!cellItems.length) return getItemSize();
+      if (getCustomItemSize) return Math.max(...cellItems.map(getCustomItemSize));
+      if (isAutoSized) return measuredSizes[cellItems[0].id] ?? getItemSize();
+      return getItemSize();
+    },
+    [getCells, items, getCustomItemSize, isAutoSized, measuredSizes, getItemSize]
+  );
+
+  // Prefix sums of slide starts for variable sizes; the last entry is one full cycle including the trailing gap
+  const slideStarts = useMemo(() => {
+    if (!isVariableSize) return null;
+
+    const starts = [0];
+    for (let i = 0; i < itemCount; i++) {
+      starts.push(starts[i] + getSlideSize(i) + gap);
+    }
+    return starts;
+  }, [isVariableSize, itemCount, getSlideSize, gap]);
+
+  const contentSize = slideStarts ? slideStarts[itemCount] - gap : itemCount * (getItemSize() + gap) - gap;
+
+  // In loop mode currentIndex is an unwrapped track position; the logical index is derived from it
+  const isLooping = !!loop && (isVariableSize ? contentSize > availableSize : itemCount > visibleItems);
+  const logicalIndex = isLooping ? normalizeIndex(currentIndex, itemCount) : currentIndex;
+  // A loop has no ends to trim
+  const isTrimmed = !isLooping && (containScroll ?? true);
+
+  // Distance from the track start to a (possibly unwrapped) track position
+  const getPositionStart = useCallback(
+    (position: number) => {
+      if (!slideStarts) return position * (getItemSize() + gap);
+
+      const cycle = Math.floor(position / itemCount);
+      return cycle * slideStarts[itemCount] + slideStarts[normalizeIndex(position, itemCount)];
+    },
+    [slideStarts, getItemSize, gap, itemCount]
+  );
+
+  const getPositionSize = useCallback((position: number) => (slideStarts ? getSlideSize(normalizeIndex(position, itemCount)) : getItemSize()), [slideStarts, getSlideSize, itemCount, getItemSize]);
+
+  // Track position whose slot contains the given distance; a binary search over the prefix sums for variable sizes
+  const getPositionAt = useCallback(
+    (distance: number) => {
+      if (!slideStarts) {
+        const step = getItemSize() + gap;
+        return step > 0 ? Math.floor(distance / step) : 0;
+      }
+
+      const cycleSize = slideStarts[itemCount];
+      if (!cycleSize) return 0;
+
+      const cycle = Math.floor(distance / cycleSize);
+      const remainder = distance - cycle * cycleSize;
+      let low = 0;
+      let high = itemCount - 1;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (slideStarts[mid] <= remainder) low = mid;
+        else high = mid - 1;
+      }
+      return cycle * itemCount + low;
+    },
+    [slideStarts, getItemSize, gap, itemCount]
+  );
+
+  // Offsets of the track when its first slide sits at the start of the viewport and when its last slide sits at the end
+  const firstOffset = peek ? peekSize : 0;
+  const lastOffset = firstOffset + Math.min(0, availableSize - contentSize);
+  // Point of the viewport the current slide is aligned to
+  const alignPoint = alignment === "center" ? containerSize / 2 : alignment === "end" ? containerSize - firstOffset : firstOffset;
+
+  // Offset that puts the given track position at the align point, ignoring the ends
+  const getAlignedOffset = useCallback(
+    (position: number) => {
+      const start = getPositionStart(position);
+      if (alignment === "center") return alignPoint - start - getPositionSize(position) / 2;
+      if (alignment === "end") return alignPoint - start - getPositionSize(position);
+      return alignPoint - start;
+    },
+    [alignment, alignPoint, getPositionStart, getPositionSize]
+  );
+
+  // When trimming, the positions at either end that would leave empty space collapse onto the first and last offsets
+  const [minIndex, maxIndex] = useMemo(() => {
+    if (!isTrimmed) return [0, Math.max(0, itemCount - 1)];
+
+    let first = 0;
+    while (first < itemCount - 1 && getAlignedOffset(first + 1) >= firstOffset - 0.5) first++;
+    let last = itemCount - 1;
+    while (last > first && getAlignedOffset(last - 1) <= lastOffset + 0.5) last--;
+    return [first, Math.max(first, last)];
+  }, [isTrimmed, itemCount, getAlignedOffset, firstOffset, lastOffset]);
+
+  const clampIndex = useCallback((index: number) => (isLooping ? index : Math.max(minIndex, Math.min(maxIndex, index))), [isLooping, minIndex, maxIndex]);
+
+  // Pages start every scrollStep items from minIndex; without looping the last page is pinned to maxIndex
+  const scrollStep = slidesToScroll === "page" ? visibleItems : Math.max(1, Math.floor(slidesToScroll ?? 1));
+  const pageCount = isLooping ? Math.ceil(itemCount / scrollStep) : Math.ceil((maxIndex - minIndex) / scrollStep) + 1;
+  const currentPage = isLooping ? Math.floor(logicalIndex / scrollStep) : currentIndex >= maxIndex ? pageCount - 1 : Math.floor(Math.max(0, currentIndex - minIndex) / scrollStep);
+
+  const getPageIndex = useCallback(
+    (page: number) => (isLooping ? normalizeIndex(page, pageCount) * scrollStep : Math.min(maxIndex, minIndex + Math.max(0, page) * scrollStep)),
+    [isLooping, pageCount, scrollStep, minIndex, maxIndex]
+  );
+
+  // Offset that shows the given track position at the align point, trimmed so the ends never show empty space
+  const getIndexOffset = useCallback(
+    (index: number) => {
+      const offset = getAlignedOffset(index);
+      return isTrimmed ? Math.max(lastOffset, Math.min(firstOffset, offset)) : offset;
+    },
+    [getAlignedOffset, isTrimmed, firstOffset, lastOffset]
+  );
+
+  // Track position that would be aligned at an offset closest to the given one
+  const getNearestPosition = useCallback(
+    (offset: number) => {
+      const position = getPositionAt(alignPoint - offset);
+      return [position - 1, position + 1].reduce(
+        (nearest, candidate) => (Math.abs(getAlignedOffset(candidate) - offset) < Math.abs(getAlignedOffset(nearest) - offset) ? candidate : nearest),
+        position
+      );
+    },
+    [getPositionAt, alignPoint, getAlignedOffset]
+  );
+
+  // Measure the container along both axes; container breakpoints follow the main axis
+  const measureDimensions = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const size = isVertical ? container.offsetHeight : container.offsetWidth;
+    setContainerSize(size);
+    setContainerCrossSize(isVertical ? container.offsetWidth : container.offsetHeight);
+    setDetectedDirection(getComputedStyle(container).direction === "rtl" ? "rtl" : "ltr");
+    setBreakpointWidth(breakpointBasis === "viewport" ? window.innerWidth : size);
+  }, [isVertical, breakpointBasis]);
+
+  // Update dimensions
+  useIsomorphicLayoutEffect(() => {
+    if (!containerRef.current) return;
+
+    const updateDimensions = throttle(measureDimensions, 16);
+
+    const resizeObserver = new ResizeObserver(updateDimensions);
+    resizeObserver.observe(containerRef.current);
+    // The viewport can change size without the container doing so
+    window.addEventListener("resize", updateDimensions);
+    updateDimensions();
+
+    return () => {
+      resizeObserver.disconnect();
+      window.removeEventListener("resize", updateDimensions);
+      updateDimensions.cancel();
+      cancelAnimationFrame(animationRef.current);
+    };
+  }, [measureDimensions]);
+
+  // Looping and variable-size tracks are always absolutely positioned, so they are always windowed
+  const isPositioned = !!virtualization?.enabled || isLooping || isVariableSize;
+
+  // Calculate visible range
+  const calculateVisibleRange = useCallback(() => {
+    if (!isPositioned) {
+      return { start: 0, end: itemCount };
+    }
+
+    const itemSize = getItemSize();
+    if (!itemSize) return { start: 0, end: 0 };
+
+    // Without virtualization the window keeps a full cycle on either side
+    const overscan = virtualization?.enabled ? (virtualization.overscan ?? 2) : itemCount;
+
+    const startIndex = getPositionAt(-sliderOffset) - overscan;
+    const endIndex = getPositionAt(-sliderOffset + containerSize) + 1 + overscan;
+
+    if (isLooping) {
+      return { start: startIndex, end: endIndex };
+    }
+
+    return {
+      start: Math.max(0, startIndex),
+      end: Math.min(itemCount, endIndex),
+    };
+  }, [isPositioned, virtualization, isLooping, sliderOffset, containerSize, itemCount, getItemSize, getPositionAt]);
+
+  // Update visible range
+  useIsomorphicLayoutEffect(() => {
+    if (isPositioned) {
+      const range = calculateVisibleRange();
+      setVisibleRange(range);
+    }
+  }, [sliderOffset, containerSize, isPositioned, calculateVisibleRange]);
+
+  // One ResizeObserver measures every rendered slide, so late-loading images and reflowing text update the layout.
+  // It follows the rendered window: slides that leave it are unobserved and their heights forgotten. Content sizes
+  // are cached per item id instead, so virtualized-out items keep theirs
+  useIsomorphicLayoutEffect(() => {
+    if (!containerRef.current) return;
+
+    // Slides of sliders nested inside a slide carry the same attributes, so only this track's own slides count
+    const slideElements = Array.from(containerRef.current.querySelectorAll<HTMLElement>("[data-slide-position]")).filter(
+      (slide) => slide.closest("[data-slider-track]")?.getAttribute("data-slider-track") === trackId
+    );
+    // Heights come from the content inside each slide, since stretched slides only ever report the track height back
+    const contentElements = slideElements.map((slide) => slide.querySelector<HTMLElement>(":scope > [data-slide-content]") ?? slide);
+    const measureSlides = () => {
+      // Content filling a stretched slide is read at its natural height: released for the read and restored in the same task
+      const stretchedHeights = contentElements.map((content) => content.style.height);
+      contentElements.forEach((content) => (content.style.height = "auto"));
+      const heights = Object.fromEntries(slideElements.map((slide, i) => [slide.dataset.slidePosition!, contentElements[i].offsetHeight]));
+      contentElements.forEach((content, i) => (content.style.height = stretchedHeights[i]));
+      setSlideHeights((prev) => (Object.keys(prev).length === slideElements.length && Object.entries(heights).every(([position, height]) => prev[position] === height) ? prev : heights));
+
+      if (!isAutoSized) return;
+      const sizes = slideElements.filter((slide) => slide.dataset.itemId !== undefined).map((slide) => [slide.dataset.itemId!, isVertical ? slide.offsetHeight : slide.offsetWidth] as const);
+      setMeasuredSizes((prev) => (sizes.some(([id, size]) => prev[id] !== size) ? { ...prev, ...Object.fromEntries(sizes) } : prev));
+    };
+
+    // Measured right away as well, so a new window is laid out before it is painted
+    measureSlides();
+    const resizeObserver = new ResizeObserver(measureSlides);
+    slideElements.forEach((slide) => resizeObserver.observe(slide));
+    // A stretched content element keeps its size when what it holds grows or shrinks, so that is watched instead
+    contentElements.forEach((content, i) => content !== slideElements[i] && Array.from(content.children).forEach((child) => resizeObserver.observe(child)));
+    return () => resizeObserver.disconnect();
+  }, [trackId, isAutoSized, isVertical, isPositioned, visibleRange.start, visibleRange.end, items]);
+
+  // Read when an animation settles, which can be several renders after it started
+  const logicalIndexRef = useRef(logicalIndex);
+  useEffect(() => {
+    logicalIndexRef.current = logicalIndex;
+  }, [logicalIndex]);
+
+  // Animation
+  // A damped spring integrated per frame from `springConfig`, in px and px/s. Its state outlives a single
+  // animation so a retarget or a drag release carries the current velocity into the next one
+  // Settling resolves the pending navigation, unless it is still waiting for a controlled parent to accept it; until then
+  // the track only holds its current offset
+  const resolveNavigation = useCallback(() => {
+    const navigation = navigationRef.current;
+    if (!navigation || navigation.isAwaitingCommit) return;
+
+    navigationRef.current = null;
+    navigation.resolve();
+  }, []);
+
+  const animateToOffset = useCallback(
+    (targetOffset: number, immediate = false) => {
+      targetOffsetRef.current = targetOffset;
+      cancelAnimationFrame(animationRef.current);
+
+      const spring = springRef.current;
+      if (immediate || prefersReducedMotion) {
+        isAnimatingRef.current = false;
+        spring.position = targetOffset;
+        spring.velocity = 0;
+        setSliderOffset(targetOffset);
+        resolveNavigation();
+        // Immediate moves are layout corrections rather than transitions, so only reduced-motion jumps settle
+        if (!immediate) {
+          onSettle?.(logicalIndexRef.current);
+          events.emit("settle", logicalIndexRef.current);
+        }
+        return;
+      }
+
+      if (!isAnimatingRef.current) spring.position = sliderOffset;
+      const { stiffness, damping, mass } = springConfig;
+      let lastTime = performance.now();
+
+      const animate = (currentTime: number) => {
+        // Fixed substeps keep stiff springs stable; long gaps (e.g. a background tab) are capped
+        let remaining = Math.min(currentTime - lastTime, 64) / 1000;
+        lastTime = currentTime;
+        while (remaining > 0) {
+          const dt = Math.min(remaining, 1 / 240);
+          const force = -stiffness * (spring.position - targetOffset) - damping * spring.velocity;
+          spring.velocity += (force / mass) * dt;
+          spring.position += spring.velocity * dt;
+          remaining -= dt;
+        }
+
+        if (Math.abs(spring.velocity) < SPRING_REST_SPEED && Math.abs(spring.position - targetOffset) < SPRING_REST_DELTA) {
+          isAnimatingRef.current = false;
+          spring.position = targetOffset;
+          spring.velocity = 0;
+          setSliderOffset(targetOffset);
+          resolveNavigation();
+          onSettle?.(logicalIndexRef.current);
+          events.emit("settle", logicalIndexRef.current);
+          return;
+        }
+
+        setSliderOffset(spring.position);
+        animationRef.current = requestAnimationFrame(animate);
+      };
+
+      isAnimatingRef.current = true;
+      animationRef.current = requestAnimationFrame(animate);
+    },
+    [sliderOffset, springConfig, prefersReducedMotion, resolveNavigation, onSettle, events]
+  );
+
+  const interruptNavigation = useCallback(() => {
+    navigationRef.current?.reject(new DOMException("Slider navigation was interrupted", "AbortError"));
+    navigationRef.current = null;
+  }, []);
+
+  // Nothing settles after unmount, so a pending navigation fails instead of hanging
+  useEffect(() => interruptNavigation, [interruptNavigation]);
+
+  // Navigation handlers
+  const isControlled = controlledIndex !== undefined;
+
+  // Moves the track to a position; the only place currentIndex changes
+  const commitIndex = useCallback(
+    (position: number) => {
+      if (navigationRef.current) navigationRef.current.isAwaitingCommit = false;
+      setCurrentIndex(position);
+      animateToOffset(getIndexOffset(position));
+      const index = isLooping ? normalizeIndex(position, itemCount) : position;
+      onSlideChange?.(index);
+      // Snapping back or stepping past an end keeps the slide, which isn't a selection
+      if (index !== logicalIndex) events.emit("select", index);
+    },
+    [animateToOffset, getIndexOffset, onSlideChange, events, isLooping, itemCount, logicalIndex]
+  );
+
+  // Requests a position; in controlled mode the parent decides by echoing it back through `index`
+  const goToIndex = useCallback(
+    (position: number) => {
+      const nextIndex = isLooping ? normalizeIndex(position, itemCount) : position;
+      interruptNavigation();
+
+      if (isControlled) {
+        // Remembered so a looping slider keeps the requested direction around the seam
+        pendingIndexRef.current = position;
+        animateToOffset(getIndexOffset(currentIndex));
+      } else {
+        commitIndex(position);
+      }
+
+      if (nextIndex !== logicalIndex) onIndexChange?.(nextIndex);
+    },
+    [isLooping, itemCount, interruptNavigation, isControlled, animateToOffset, getIndexOffset, currentIndex, commitIndex, logicalIndex, onIndexChange]
+  );
+
+  // Resolves a logical index to a track position, taking the shortest way around when looping
+  const resolveIndex = useCallback(
+    (index: number) => {
+      if (!isLooping) return index;
+      let delta = normalizeIndex(index - currentIndex, itemCount);
+      if (delta > itemCount / 2) delta -= itemCount;
+      return currentIndex + delta;
+    },
+    [isLooping, currentIndex, itemCount]
+  );
+
+  // Follow the controlled index
+  useEffect(() => {
+    if (controlledIndex === undefined || controlledIndex === logicalIndex) return;
+
+    const pendingIndex = pendingIndexRef.current;
+    pendingIndexRef.current = null;
+
+    const isPendingRequest = pendingIndex !== null && (isLooping ? normalizeIndex(pendingIndex, itemCount) : pendingIndex) === controlledIndex;
+    commitIndex(isPendingRequest ? pendingIndex : resolveIndex(controlledIndex));
+  }, [controlledIndex, logicalIndex, isLooping, itemCount, resolveIndex, commitIndex]);
+
+  // Re-align the track whenever the layout moves the current index (first measurement, resize, breakpoints,
+  // newly measured slides) so the initial or controlled index is actually shown
+  useIsomorphicLayoutEffect(() => {
+    const targetOffset = getIndexOffset(currentIndex);
+    if (isDragClaimedRef.current || Math.abs(targetOffset - targetOffsetRef.current) < 0.5) return;
+
+    // A running animation is retargeted rather than cut short
+    animateToOffset(targetOffset, !isAnimatingRef.current);
+  }, [getIndexOffset, currentIndex, animateToOffset]);
+
+  // Loading more items into a looping slider changes the cycle length, so rebase the unwrapped position onto the new cycle
+  const loopCountRef = useRef(itemCount);
+  useEffect(() => {
+    const previousCount = loopCountRef.current;
+    loopCountRef.current = itemCount;
+    if (previousCount === itemCount || !isLooping) return;
+
+    const position = normalizeIndex(currentIndex, previousCount);
+    setCurrentIndex(position);
+    animateToOffset(getIndexOffset(position), true);
+  }, [itemCount, isLooping, currentIndex, getIndexOffset, animateToOffset]);
+
+  // Ask for more data once the rendered window gets close to the last loaded item
+  const reachEndCountRef = useRef(-1);
+  useEffect(() => {
+    if (!onReachEnd || isLooping) return;
+
+    const renderedEnd = isPositioned ? visibleRange.end : currentIndex + visibleItems;
+    const loadedCount = getColumnCount(items.length, rows, gridFill, pageColumns);
+    const hasMore = totalCount === undefined || items.length < totalCount;
+    if (!hasMore || renderedEnd < loadedCount - (reachEndThreshold ?? 3) || reachEndCountRef.current === items.length) return;
+
+    reachEndCountRef.current = items.length;
+    onReachEnd();
+  }, [onReachEnd, isLooping, isPositioned, visibleRange.end, currentIndex, visibleItems, totalCount, items.length, rows, gridFill, pageColumns, reachEndThreshold]);
+
+  useEffect(() => {
+    if (import.meta.env.DEV && wasControlledRef.current !== isControlled) {
+      console.warn(
+        `DynamicSlider is changing from ${wasControlledRef.current ? "controlled" : "uncontrolled"} to ${isControlled ? "controlled" : "uncontrolled"}. ` +
+          "Decide between passing `index` or `defaultIndex` for the lifetime of the component."
+      );
+    }
+    wasControlledRef.current = isControlled;
+  }, [isControlled]);
+
+  // Deep linking. The URL is only read once mounted so server and client renders match, and again on history navigation.
+  // urlIndexRef holds the index the URL currently shows, or null until it has been read
+  const urlIndexRef = useRef<number | null>(null);
+
+  const resolveUrlValue = useCallback(
+    (value: string) => {
+      const itemIndex = urlSync?.key === "id" ? items.findIndex((item) => String(item.id) === value) : -1;
+      const index = urlSync?.key === "id" ? (itemIndex === -1 ? -1 : getItemColumn(itemIndex, cellCount, rows, gridFill, pageColumns)) : Number(value);
+      return Number.isInteger(index) && index >= 0 && index < itemCount ? index : null;
+    },
+    [urlSync?.key, items, cellCount, rows, gridFill, pageColumns, itemCount]
+  );
+
+  useIsomorphicLayoutEffect(() => {
+    // Clamping needs the measured geometry
+    if (!urlSync || urlIndexRef.current !== null || !containerSize) return;
+
+    const value = readUrlParam(urlSync.mode ?? "search", urlSync.param);
+    const index = value === null ? null : resolveUrlValue(value);
+    // An id that isn't loaded yet is retried when items arrive
+    if (value !== null && index === null && items.length < cellCount) return;
+
+    // Trimmed ends can't rest at every index; the slider shows the nearest one it can, leaving the shared URL as it is
+    const position = index === null ? currentIndex : clampIndex(resolveIndex(index));
+    const targetIndex = isLooping ? normalizeIndex(position, itemCount) : position;
+    urlIndexRef.current = targetIndex;
+    if (targetIndex === logicalIndex) return;
+
+    if (isControlled) onIndexChange?.(targetIndex);
+    else setCurrentIndex(position);
+  }, [urlSync, containerSize, resolveUrlValue, items.length, cellCount, currentIndex, clampIndex, resolveIndex, isLooping, itemCount, logicalIndex, isControlled, onIndexChange]);
+
+  // Only actual slide changes are written, so a controlled parent that hasn't caught up yet doesn't overwrite the URL
+  const previousIndexRef = useRef(logicalIndex);
+  useEffect(() => {
+    const hasChanged = previousIndexRef.current !== logicalIndex;
+    previousIndexRef.current = logicalIndex;
+    if (!urlSync || !hasChanged || urlIndexRef.current === null || urlIndexRef.current === logicalIndex) return;
+
+    // A column is identified by its first item
+    const value = urlSync.key === "id" ? items[getCells(logicalIndex)[0]]?.id : logicalIndex;
+    if (value === undefined) return;
+
+    urlIndexRef.current = logicalIndex;
+    writeUrlParam(urlSync.mode ?? "search", urlSync.param, String(value), urlSync.history ?? "replace");
+  }, [urlSync, items, getCells, logicalIndex]);
+
+  useEffect(() => {
+    if (!urlSync) return;
+
+    const handlePopState = () => {
+      const value = readUrlParam(urlSync.mode ?? "search", urlSync.param);
+      // Going back past the first pushed slide returns to the default one
+      const index = (value === null ? null : resolveUrlValue(value)) ?? defaultIndex;
+      urlIndexRef.current = index;
+      if (index !== logicalIndex) goToIndex(clampIndex(resolveIndex(index)));
+    };
+
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, [urlSync, resolveUrlValue, defaultIndex, logicalIndex, goToIndex, clampIndex, resolveIndex]);
+
+  // Impressions, measured with the slider's own geometry so slides that are rendered but scrolled out of the viewport don't count.
+  // The share of the slider inside the page viewport scales that, and the page has to be visible. Dwell timers are keyed by item id
+  const [screenRatio, setScreenRatio] = useState(0);
+  const visibleSlidesRef = useRef(new Map<string | number, { item: T; index: number; visibleRatio: number }>());
+  const dwellTimersRef = useRef(new Map<string | number, { timer: number; since: number }>());
+  const visibleIdsRef = useRef("");
+  const impressionHandlersRef = useRef({ onItemImpression, impressionReporter, impressions });
+
+  useEffect(() => {
+    impressionHandlersRef.current = { onItemImpression, impressionReporter, impressions };
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isTrackingVisibility || !container || typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver(([entry]) => setScreenRatio(entry.isIntersecting ? entry.intersectionRatio : 0), { threshold: IMPRESSION_RATIO_STEPS });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [isTrackingVisibility]);
+
+  const recordImpression = useCallback((itemId: string | number) => {
+    const timers = dwellTimersRef.current;
+    const since = timers.get(itemId)?.since ?? Date.now();
+    timers.delete(itemId);
+
+    const slide = visibleSlidesRef.current.get(itemId);
+    const { onItemImpression, impressionReporter, impressions } = impressionHandlersRef.current;
+    const sessionKey = impressions?.sessionKey ?? "slider";
+    if (!slide || getSeenImpressions(sessionKey).has(String(itemId))) return;
+
+    markImpressionSeen(sessionKey, itemId);
+    const details = { index: slide.index, visibleRatio: slide.visibleRatio, dwellMs: Date.now() - since };
+    onItemImpression?.(slide.item, details);
+    queueImpression(impressionReporter, { ...details, itemId, sessionKey, timestamp: Date.now() }, impressions?.batchSize ?? 20, impressions?.flushInterval ?? 5000);
+  }, []);
+
+  useEffect(() => {
+    if (!isTrackingVisibility) return;
+
+    const threshold = impressions?.threshold ?? 0.5;
+    const visibleSlides = new Map<string | number, { item: T; index: number; visibleRatio: number }>();
+    if (screenRatio > 0 && !isDocumentHidden && containerSize > 0) {
+      const first = getPositionAt(-sliderOffset);
+      const last = getPositionAt(-sliderOffset + containerSize);
+      for (let position = first; position <= last; position++) {
+        if (!isLooping && (position < 0 || position >= itemCount)) continue;
+
+        const size = getPositionSize(position);
+        if (size <= 0) continue;
+
+        const start = sliderOffset + getPositionStart(position);
+        const visibleRatio = (screenRatio * Math.max(0, Math.min(containerSize, start + size) - Math.max(0, start))) / size;
+        if (visibleRatio < threshold) continue;
+
+        // Every item of a column is as far in view as the column
+        getCells(isLooping ? normalizeIndex(position, itemCount) : position).forEach((index) => {
+          const item = items[index] as T | undefined;
+          // A loop can show copies of the same item; the most visible one counts
+          if (item && visibleRatio > (visibleSlides.get(item.id)?.visibleRatio ?? 0)) visibleSlides.set(item.id, { item, index, visibleRatio });
+        });
+      }
+    }
+    visibleSlidesRef.current = visibleSlides;
+
+    const visibleIds = JSON.stringify([...visibleSlides.keys()]);
+    if (visibleIds !== visibleIdsRef.current) {
+      visibleIdsRef.current = visibleIds;
+      onItemsVisible?.([...visibleSlides.values()].map((slide) => slide.item));
+    }
+
+    const timers = dwellTimersRef.current;
+    timers.forEach(({ timer }, itemId) => {
+      if (visibleSlides.has(itemId)) return;
+      window.clearTimeout(timer);
+      timers.delete(itemId);
+    });
+    if (!impressions?.enabled) return;
+
+    const seen = getSeenImpressions(impressions.sessionKey ?? "slider");
+    visibleSlides.forEach((_, itemId) => {
+      if (timers.has(itemId) || seen.has(String(itemId))) return;
+      timers.set(itemId, { timer: window.setTimeout(() => recordImpression(itemId), impressions.minDwell ?? 1000), since: Date.now() });
+    });
+  }, [
+    isTrackingVisibility,
+    impressions,
+    screenRatio,
+    isDocumentHidden,
+    containerSize,
+    sliderOffset,
+    getPositionAt,
+    getPositionStart,
+    getPositionSize,
+    isLooping,
+    itemCount,
+    getCells,
+    items,
+    onItemsVisible,
+    recordImpression,
+  ]);
+
+  // Queued impressions go out before the page is hidden, since it may never come back
+  useEffect(() => {
+    if (!impressions?.enabled) return;
+
+    const timers = dwellTimersRef.current;
+    const handleVisibilityChange = () => {
+      if (document.hidden) flushImpressions(impressionReporter);
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      timers.forEach(({ timer }) => window.clearTimeout(timer));
+      timers.clear();
+      flushImpressions(impressionReporter);
+    };
+  }, [impressions?.enabled, impressionReporter]);
+
+  // Steps to the nearest page start past the current index, always moving forward around a loop
+  const handleNext = useCallback(() => {
+    if (isLooping) {
+      const target = getPageIndex(Math.floor(logicalIndex / scrollStep) + 1);
+      goToIndex(currentIndex + normalizeIndex(target - logicalIndex, itemCount));
+      return;
+    }
+
+    goToIndex(getPageIndex(Math.floor(Math.max(0, currentIndex - minIndex) / scrollStep) + 1));
+  }, [isLooping, logicalIndex, currentIndex, minIndex, scrollStep, itemCount, getPageIndex, goToIndex]);
+
+  const handlePrevious = useCallback(() => {
+    if (isLooping) {
+      const target = getPageIndex(Math.ceil(logicalIndex / scrollStep) - 1);
+      goToIndex(currentIndex - normalizeIndex(logicalIndex - target, itemCount));
+      return;
+    }
+
+    goToIndex(currentIndex >= maxIndex ? getPageIndex(pageCount - 2) : getPageIndex(Math.ceil((currentIndex - minIndex) / scrollStep) - 1));
+  }, [isLooping, logicalIndex, currentIndex, minIndex, scrollStep, maxIndex, pageCount, itemCount, getPageIndex, goToIndex]);
+
+  const handleScrollToPage = useCallback(
+    (page: number) => {
+      const clampedPage = isLooping ? page : Math.max(0, Math.min(pageCount - 1, page));
+      goToIndex(resolveIndex(getPageIndex(clampedPage)));
+    },
+    [isLooping, pageCount, getPageIndex, resolveIndex, goToIndex]
+  );
+
+  // Autoplay
+  const handleAutoplayStep = useCallback(() => {
+    // Without looping, autoplay rewinds to the other end instead of stalling there
+    if (autoplay?.direction === "backward") {
+      if (!isLooping && currentIndex <= minIndex) goToIndex(maxIndex);
+      else handlePrevious();
+    } else {
+      if (!isLooping && currentIndex >= maxIndex) goToIndex(minIndex);
+      else handleNext();
+    }
+  }, [autoplay?.direction, minIndex, maxIndex, isLooping, currentIndex, goToIndex, handleNext, handlePrevious]);
+
+  const stopAutoplayOnInteraction = useCallback(() => {
+    if (autoplay?.stopOnInteraction) setIsAutoplayPlaying(false);
+  }, [autoplay?.stopOnInteraction]);
+
+  const isAutoplayPaused = isDragging || isDocumentHidden || (!!(autoplay?.pauseOnHover ?? true) && isHovered) || (!!(autoplay?.pauseOnFocus ?? true) && isFocused);
+
+  // Restarted on every slide change so a manual navigation gets a full interval too
+  useEffect(() => {
+    if (!isAutoplayPlaying || isAutoplayPaused || itemCount <= visibleItems) return;
+
+    const timer = window.setTimeout(handleAutoplayStep, autoplay?.interval ?? 5000);
+    return () => window.clearTimeout(timer);
+  }, [isAutoplayPlaying, isAutoplayPaused, itemCount, visibleItems, autoplay?.interval, currentIndex, handleAutoplayStep]);
+
+  useEffect(() => {
+    setIsAutoplayPlaying(!!autoplay?.enabled);
+  }, [autoplay?.enabled]);
+
+  useEffect(() => {
+    if (autoplayStateRef.current === isAutoplayPlaying) return;
+    autoplayStateRef.current = isAutoplayPlaying;
+    onAutoplayStateChange?.(isAutoplayPlaying);
+  }, [isAutoplayPlaying, onAutoplayStateChange]);
+
+  useEffect(() => {
+    if (!isAutoplayPlaying && !isTrackingVisibility) return;
+
+    const handleVisibilityChange = () => setIsDocumentHidden(document.hidden);
+    handleVisibilityChange();
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [isAutoplayPlaying, isTrackingVisibility]);
+
+  // Keyboard navigation
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Already handled by a slider nested inside this one
+    if (event.defaultPrevented) return;
+
+    const target = event.target as HTMLElement;
+    if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+
+    const keyActions: Record<string, () => void> = {
+      [isVertical ? "ArrowUp" : isRtl ? "ArrowRight" : "ArrowLeft"]: handlePrevious,
+      [isVertical ? "ArrowDown" : isRtl ? "ArrowLeft" : "ArrowRight"]: handleNext,
+      Home: () => goToIndex(isLooping ? resolveIndex(0) : minIndex),
+      End: () => goToIndex(isLooping ? resolveIndex(itemCount - 1) : maxIndex),
+      PageUp: () => goToIndex(clampIndex(currentIndex - visibleItems)),
+      PageDown: () => goToIndex(clampIndex(currentIndex + visibleItems)),
+    };
+
+    const action = keyActions[event.key];
+    if (!action) return;
+
+    event.preventDefault();
+    stopAutoplayOnInteraction();
+    action();
+  };
+
+  // Moves the track just enough to show a position whole
+  const revealPosition = useCallback(
+    (position: number) => {
+      const slideStart = getPositionStart(position);
+      const slideEnd = slideStart + getPositionSize(position);
+      const viewStart = (peek ? peekSize : 0) - getIndexOffset(currentIndex);
+
+      if (slideStart < viewStart - 0.5) {
+        goToIndex(clampIndex(position));
+      } else if (slideEnd > viewStart + availableSize + 0.5 && alignment !== "start") {
+        goToIndex(clampIndex(position));
+      } else if (slideEnd > viewStart + availableSize + 0.5) {
+        // First position from which the focused slide fits entirely
+        const fitStart = slideEnd - availableSize;
+        const fitPosition = getPositionAt(fitStart);
+        goToIndex(clampIndex(getPositionStart(fitPosition) < fitStart - 0.5 ? fitPosition + 1 : fitPosition));
+      }
+    },
+    [getPositionStart, getPositionSize, getPositionAt, peek, peekSize, getIndexOffset, currentIndex, availableSize, alignment, clampIndex, goToIndex]
+  );
+
+  // Brings a slide that received focus (e.g. by tabbing into an overscanned card) fully into view
+  const handleSlideFocus = useCallback(
+    (position: number) => {
+      // The browser scrolls the clipped container to reveal the focused element; the track offset does that instead
+      if (containerRef.current) {
+        containerRef.current.scrollLeft = 0;
+        containerRef.current.scrollTop = 0;
+      }
+      revealPosition(position);
+    },
+    [revealPosition]
+  );
+
+  // Drag handlers
+  const applyOverscroll = useCallback(
+    (offset: number) => {
+      if (isLooping) return offset;
+
+      const maxOffset = getIndexOffset(minIndex);
+      const minOffset = getIndexOffset(maxIndex);
+      const resistance = drag?.overscroll ?? 0.55;
+
+      if (offset > maxOffset) return maxOffset + rubberBand(offset - maxOffset, containerSize, resistance);
+      if (offset < minOffset) return minOffset - rubberBand(minOffset - offset, containerSize, resistance);
+      return offset;
+    },
+    [isLooping, getIndexOffset, minIndex, maxIndex, drag?.overscroll, containerSize]
+  );
+
+  const recordDragSample = (position: number) => {
+    const time = performance.now();
+    // Only the last 100ms matter for the release velocity
+    dragSamplesRef.current = [...dragSamplesRef.current.filter((sample) => time - sample.time < 100), { position, time }];
+  };
+
+  // Release velocity in px/ms. A pointer held still sends no moves, so samples are aged against the release time as well
+  const getDragVelocity = () => {
+    const now = performance.now();
+    const samples = dragSamplesRef.current.filter((sample) => now - sample.time < 100);
+    if (samples.length < 2) return 0;
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const elapsed = last.time - first.time;
+    return elapsed > 0 ? (last.position - first.position) / elapsed : 0;
+  };
+
+  const getPointerPosition = (event: React.PointerEvent) => (isVertical ? event.clientY : axisSign * event.clientX);
+
+  const handleDragStart = (event: React.PointerEvent) => {
+    // Only the first pointer drives the gesture; extra fingers and non-primary mouse buttons are ignored
+    if (!enableDrag || activePointerRef.current !== null) return;
+    if (event.pointerType === "mouse" && event.button !== 0) return;
+
+    // The gesture stays unclaimed until its direction is known, so cross-axis swipes keep scrolling the page
+    activePointerRef.current = event.pointerId;
+    isDragClaimedRef.current = false;
+    suppressClickRef.current = false;
+    gestureOriginRef.current = { x: event.clientX, y: event.clientY };
+
+    // Capture only starts once the drag is claimed, so a pointer released outside the track before that is only seen here
+    const pointerId = event.pointerId;
+    const handleWindowRelease = (nativeEvent: PointerEvent) => {
+      if (nativeEvent.pointerId !== pointerId) return;
+      window.removeEventListener("pointerup", handleWindowRelease);
+      window.removeEventListener("pointercancel", handleWindowRelease);
+      if (!isDragClaimedRef.current && activePointerRef.current === pointerId) activePointerRef.current = null;
+    };
+    window.addEventListener("pointerup", handleWindowRelease);
+    window.addEventListener("pointercancel", handleWindowRelease);
+  };
+
+  const claimDrag = (event: React.PointerEvent) => {
+    stopAutoplayOnInteraction();
+
+    isDragClaimedRef.current = true;
+    isAnimatingRef.current = false;
+    suppressClickRef.current = true;
+    setIsDragging(true);
+    setPreventScroll(true);
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const position = getPointerPosition(event);
+    dragStartRef.current = position;
+    dragCurrentRef.current = position;
+    dragOriginOffsetRef.current = sliderOffset;
+    dragSamplesRef.current = [];
+    recordDragSample(position);
+
+    cancelAnimationFrame(animationRef.current);
+    interruptNavigation();
+    onDragStart?.();
+    events.emit("dragStart");
+  };
+
+  const releaseGesture = (event: React.PointerEvent) => {
+    activePointerRef.current = null;
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+  };
+
+  const handleDragMove = (event: React.PointerEvent) => {
+    if (event.pointerId !== activePointerRef.current || !enableDrag) return;
+
+    if (!isDragClaimedRef.current) {
+      // A slider nested inside this one already claimed the gesture on its way up
+      if (claimedPointerEvents.has(event.nativeEvent)) {
+        releaseGesture(event);
+        return;
+      }
+
+      const deltaX = event.clientX - gestureOriginRef.current.x;
+      const deltaY = event.clientY - gestureOriginRef.current.y;
+      if (Math.max(Math.abs(deltaX), Math.abs(deltaY)) < DRAG_INTENT_THRESHOLD) return;
+
+      const [mainDelta, crossDelta] = isVertical ? [deltaY, deltaX] : [deltaX, deltaY];
+      if (Math.abs(mainDelta) <= Math.abs(crossDelta)) {
+        releaseGesture(event);
+        return;
+      }
+
+      claimDrag(event);
+    }
+
+    claimedPointerEvents.add(event.nativeEvent);
+
+    const position = getPointerPosition(event);
+    dragCurrentRef.current = position;
+    recordDragSample(position);
+
+    setSliderOffset(applyOverscroll(dragOriginOffsetRef.current + position - dragStartRef.current));
+  };
+
+  const handleDragEnd = (event: React.PointerEvent) => {
+    if (event.pointerId !== activePointerRef.current || !enableDrag) return;
+
+    releaseGesture(event);
+    if (!isDragClaimedRef.current) return;
+
+    isDragClaimedRef.current = false;
+    setIsDragging(false);
+    setPreventScroll(false);
+
+    // Every branch below animates, so the spring picks up the release velocity
+    springRef.current.velocity = getDragVelocity() * 1000;
+
+    const totalDrag = dragCurrentRef.current - dragStartRef.current;
+    const itemSize = getItemSize();
+    const passedThreshold = Math.abs(totalDrag) > itemSize * dragThreshold;
+
+    if (drag?.momentum ?? true) {
+      // Project where a fling decaying by `friction` every frame (~16ms) would come to rest, then snap to the nearest item
+      const friction = Math.min(0.99, Math.max(0, drag?.friction ?? 0.92));
+      const projection = (getDragVelocity() * 16) / (1 - friction);
+      const restingOffset = dragOriginOffsetRef.current + totalDrag + projection;
+      let targetIndex = getNearestPosition(restingOffset);
+
+      // A slow drag past the threshold still advances at least one item
+      if (targetIndex === currentIndex && passedThreshold) {
+        targetIndex += totalDrag > 0 ? -1 : 1;
+      }
+
+      targetIndex = clampIndex(targetIndex);
+      if (targetIndex !== currentIndex) {
+        goToIndex(targetIndex);
+      } else {
+        animateToOffset(getIndexOffset(currentIndex));
+      }
+    } else if (passedThreshold) {
+      if (totalDrag > 0) handlePrevious();
+      else handleNext();
+    } else {
+      animateToOffset(getIndexOffset(currentIndex));
+    }
+
+    onDragEnd?.();
+    events.emit("dragEnd");
+  };
+
+  // Wheel and trackpad scrolling. A wheel gesture has no end event, so it ends after WHEEL_GESTURE_GAP ms of quiet
+  const wheelStateRef = useRef({ isActive: false, isConsumed: false, offset: 0, distance: 0, lastMagnitude: 0, timer: 0 });
+  const wheelHandlersRef = useRef<{ handleWheel: (event: WheelEvent) => void; endWheelGesture: () => void } | null>(null);
+
+  const endWheelGesture = () => {
+    const wheelState = wheelStateRef.current;
+    const wasActive = wheelState.isActive;
+    wheelState.isActive = false;
+    wheelState.isConsumed = false;
+    if (!wasActive) return;
+
+    let targetIndex = getNearestPosition(wheelState.offset);
+    // Like a slow drag, a gesture past the threshold still advances at least one item
+    if (targetIndex === currentIndex && Math.abs(wheelState.distance) > getItemSize() * dragThreshold) {
+      targetIndex += wheelState.distance > 0 ? -1 : 1;
+    }
+
+    targetIndex = clampIndex(targetIndex);
+    if (targetIndex !== currentIndex) {
+      goToIndex(targetIndex);
+    } else {
+      animateToOffset(getIndexOffset(currentIndex));
+    }
+  };
+
+  const handleWheel = (event: WheelEvent) => {
+    // A prevented event was already taken by a slider nested inside this one
+    if (!wheel?.enabled || event.defaultPrevented || event.ctrlKey || isDragClaimedRef.current || !containerSize) return;
+
+    const [mainDelta, crossDelta] = isVertical ? [event.deltaY, event.deltaX] : [event.deltaX, event.deltaY];
+    // Mostly cross-axis wheels (a vertical page scroll on a horizontal slider) pass through unless the slider takes both axes
+    const delta = Math.abs(mainDelta) >= Math.abs(crossDelta) ? mainDelta : wheel.axis === "both" ? crossDelta : 0;
+    if (!delta) return;
+
+    event.preventDefault();
+
+    const wheelState = wheelStateRef.current;
+    const scale = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16 : event.deltaMode === WheelEvent.DOM_DELTA_PAGE ? containerSize : 1;
+    const magnitude = Math.abs(delta * scale);
+    // Trackpads keep firing decaying events after the fingers lift; a clearly stronger event is a new swipe
+    const isNewSwipe = magnitude > wheelState.lastMagnitude * 1.5;
+    wheelState.lastMagnitude = magnitude;
+
+    window.clearTimeout(wheelState.timer);
+    wheelState.timer = window.setTimeout(() => wheelHandlersRef.current?.endWheelGesture(), WHEEL_GESTURE_GAP);
+
+    // A forced snap already moved for this gesture, so the rest of it (usually its inertia tail) is swallowed
+    if (wheelState.isConsumed && !isNewSwipe) return;
+
+    const movement = -delta * scale * (wheel.sensitivity ?? 1) * (isVertical ? 1 : axisSign);
+
+    if (wheel.forceSnap) {
+      wheelState.isConsumed = true;
+      stopAutoplayOnInteraction();
+      if (movement < 0) handleNext();
+      else handlePrevious();
+      return;
+    }
+
+    if (!wheelState.isActive) {
+      wheelState.isActive = true;
+      wheelState.offset = sliderOffset;
+      wheelState.distance = 0;
+      cancelAnimationFrame(animationRef.current);
+      isAnimatingRef.current = false;
+      // The track stops dead, so the snap at the end of the gesture mustn't inherit the interrupted spring's speed
+      springRef.current.velocity = 0;
+      interruptNavigation();
+      stopAutoplayOnInteraction();
+    }
+
+    // The track follows the wheel (inertia included) and only snaps once the gesture ends; no rubber band at the edges
+    wheelState.distance += movement;
+    wheelState.offset = isLooping ? wheelState.offset + movement : Math.max(getIndexOffset(maxIndex), Math.min(getIndexOffset(minIndex), wheelState.offset + movement));
+    setSliderOffset(wheelState.offset);
+  };
+
+  useEffect(() => {
+    wheelHandlersRef.current = { handleWheel, endWheelGesture };
+  });
+
+  // React's wheel listeners are passive, so taking over the wheel needs a native one
+  useEffect(() => {
+    const container = containerRef.current;
+    const wheelState = wheelStateRef.current;
+    if (!wheel?.enabled || !container) return;
+
+    const handleNativeWheel = (event: WheelEvent) => wheelHandlersRef.current?.handleWheel(event);
+    container.addEventListener("wheel", handleNativeWheel, { passive: false });
+    return () => {
+      container.removeEventListener("wheel", handleNativeWheel);
+      window.clearTimeout(wheelState.timer);
+    };
+  }, [wheel?.enabled]);
+
+  const handleClickCapture = (event: React.MouseEvent) => {
+    if (!suppressClickRef.current) return;
+
+    suppressClickRef.current = false;
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  // Where a track position sits relative to the resting place of the current slide; follows the track while dragging or animating
+  const getSlideMotion = useCallback(
+    (position: number) => {
+      const currentSize = getPositionSize(currentIndex);
+      const size = getPositionSize(position);
+      const displacement = sliderOffset - getIndexOffset(currentIndex);
+      const offset = getPositionStart(position) + size / 2 - (getPositionStart(currentIndex) + currentSize / 2) + displacement;
+      // Normalized so that the neighbors of the current slide are exactly one slide away
+      const spacing = (currentSize + size) / 2 + gap;
+      const distance = spacing > 0 ? offset / spacing : 0;
+      return { offset, distance, progress: Math.max(-1, Math.min(1, distance)) };
+    },
+    [sliderOffset, currentIndex, gap, getIndexOffset, getPositionStart, getPositionSize]
+  );
+
+  const slideEffect = typeof effect === "function" ? effect : effect && effect !== "slide" ? slideEffects[effect] : undefined;
+
+  // Until the container is measured the slides are laid out by CSS alone, identically on the server and the client
+  const isReady = itemCount > 0 && containerSize > 0;
+  const initialLayout = useMemo(() => (isReady ? null : getInitialLayoutCss(`[data-slider-track="${trackId}"]`, baseConfig, isVertical)), [isReady, trackId, baseConfig, isVertical]);
+
+  const trackHeight = useMemo(() => {
+    if (typeof heightStrategy === "number") return heightStrategy;
+    if (heightStrategy !== "adaptive") return Math.max(0, ...Object.values(slideHeights));
+
+    // Slides within the aligned area once the track rests at the current index
+    const viewStart = (peek ? peekSize : 0) - getIndexOffset(currentIndex);
+    const first = getPositionAt(viewStart + 0.5);
+    const last = getPositionAt(viewStart + availableSize - 0.5);
+    return Math.max(0, ...Array.from({ length: Math.max(0, last - first + 1) }, (_, offset) => slideHeights[first + offset] ?? 0));
+  }, [heightStrategy, slideHeights, peek, peekSize, getIndexOffset, currentIndex, getPositionAt, availableSize]);
+  const slideHeight = heightStrategy === "adaptive" || !trackHeight ? undefined : trackHeight;
+  // Horizontal slides stretch to the track unless the track follows the slides in view
+  const isStretched = !isVertical && heightStrategy !== "adaptive";
+
+  const selectedIndex = group ? group.index : logicalIndex;
+
+  // Track positions to render; every slot when the track isn't windowed
+  const slides = useMemo(() => {
+    const initialStart = Math.max(0, Math.min(logicalIndex, itemCount - 1));
+    const start = initialLayout ? initialStart : isPositioned ? visibleRange.start : 0;
+    // One extra slide fills the peek at the end
+    const end = initialLayout ? Math.min(itemCount, initialStart + initialLayout.maxVisibleItems + 1) : isPositioned ? visibleRange.end : itemCount;
+
+    return Array.from({ length: Math.max(0, end - start) }, (_, offset) => {
+      const position = start + offset;
+      const index = isLooping ? normalizeIndex(position, itemCount) : position;
+      const cellIndices = getCells(index);
+      const item = items[cellIndices[0]] as T | undefined;
+      // Content-sized slides are left unsized along the main axis until they are measured
+      const size = isAutoSized ? (item ? measuredSizes[item.id] : undefined) : getPositionSize(position);
+      // The item keeps its width/height contract whichever way the track runs; sizes are unknown until measured
+      const width = !initialLayout ? (isVertical ? containerCrossSize : size) : undefined;
+      const height = !initialLayout ? (isVertical ? size : slideHeight) : undefined;
+      // Rows share the cross axis, gaps included
+      const getCellSize = (crossSize: number | undefined) => (crossSize === undefined ? undefined : (crossSize - gap * (rows - 1)) / rows);
+
+      return {
+        // When looping the same item can be rendered at several positions, so keys are per position
+        key: !item ? `placeholder:${position}` : isLooping ? `${item.id}:${position}` : String(item.id),
+        position,
+        index,
+        item,
+        width,
+        height,
+        progress: initialLayout ? 0 : getSlideMotion(position).progress,
+        isSelected: index === selectedIndex,
+        // The items of a column, top to bottom; just the slide's own item with one row
+        cells: cellIndices.map((cellIndex) => ({
+          index: cellIndex,
+          item: items[cellIndex] as T | undefined,
+          width: isVertical ? getCellSize(width) : width,
+          height: isVertical ? height : getCellSize(height),
+        })),
+      };
+    });
+  }, [
+    initialLayout,
+    logicalIndex,
+    selectedIndex,
+    items,
+    itemCount,
+    getCells,
+    isPositioned,
+    isLooping,
+    isAutoSized,
+    isVertical,
+    visibleRange,
+    measuredSizes,
+    getSlideMotion,
+    getPositionSize,
+    containerCrossSize,
+    slideHeight,
+    gap,
+    rows,
+  ]);
+
+  const scrollToIndex = useCallback((index: number) => goToIndex(clampIndex(resolveIndex(index))), [goToIndex, clampIndex, resolveIndex]);
+
+  const scrollToItem = useCallback(
+    (itemId: string | number) => {
+      const itemIndex = items.findIndex((item) => item.id === itemId);
+      if (itemIndex !== -1) scrollToIndex(getItemColumn(itemIndex, cellCount, rows, gridFill, pageColumns));
+    },
+    [items, cellCount, rows, gridFill, pageColumns, scrollToIndex]
+  );
+
+  // Events for SliderRef.on
+  const scrollProgressRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!isReady) return;
+
+    let progress: number;
+    if (isLooping) {
+      const lap = getPositionStart(itemCount);
+      const distance = getIndexOffset(0) - sliderOffset;
+      progress = lap > 0 ? (((distance % lap) + lap) % lap) / lap : 0;
+    } else {
+      const range = getIndexOffset(minIndex) - getIndexOffset(maxIndex);
+      progress = range > 0 ? Math.max(0, Math.min(1, (getIndexOffset(minIndex) - sliderOffset) / range)) : 0;
+    }
+
+    if (progress === scrollProgressRef.current) return;
+    scrollProgressRef.current = progress;
+    events.emit("scroll", progress);
+  }, [isReady, isLooping, sliderOffset, itemCount, minIndex, maxIndex, getPositionStart, getIndexOffset, events]);
+
+  useEffect(() => {
+    if (!containerSize) return;
+    events.emit("resize", isVertical ? { width: containerCrossSize, height: containerSize } : { width: containerSize, height: containerCrossSize });
+  }, [containerSize, containerCrossSize, isVertical, events]);
+
+  // Recorded without firing on the first measured render, so only arriving at an edge counts
+  const edgeRef = useRef<"start" | "end" | null | undefined>(undefined);
+  useEffect(() => {
+    if (!isReady) return;
+
+    const edge = isLooping ? null : currentIndex <= minIndex ? "start" : currentIndex >= maxIndex ? "end" : null;
+    const isFirstRun = edgeRef.current === undefined;
+    if (edge === edgeRef.current) return;
+
+    edgeRef.current = edge;
+    if (edge && !isFirstRun) events.emit("reachEdge", edge);
+  }, [isReady, isLooping, currentIndex, minIndex, maxIndex, events]);
+
+  const getVisibleRange = useCallback(() => {
+    const toIndex = (position: number) => (isLooping ? normalizeIndex(position, itemCount) : Math.max(0, Math.min(itemCount - 1, position)));
+    return { start: toIndex(getPositionAt(-sliderOffset + 0.5)), end: toIndex(getPositionAt(-sliderOffset + containerSize - 0.5)) };
+  }, [isLooping, itemCount, getPositionAt, sliderOffset, containerSize]);
+
+  const canScrollPrev = isLooping || currentIndex > minIndex;
+  const canScrollNext = isLooping || currentIndex < maxIndex;
+
+  // Runs a navigation and returns a promise for it; one that doesn't move the track resolves right away
+  // A parent that didn't move `index` by the render after the request declined it (read-only or clamped); the slider
+  // stays where it is, so the navigation is done once the hold animation settles
+  const [navigationCheck, setNavigationCheck] = useState(0);
+  useEffect(() => {
+    const navigation = navigationRef.current;
+    if (!navigationCheck || !navigation?.isAwaitingCommit) return;
+
+    navigation.isAwaitingCommit = false;
+    if (!isAnimatingRef.current) resolveNavigation();
+  }, [navigationCheck, resolveNavigation]);
+
+  const trackNavigation = (navigate: () => void) => {
+    interruptNavigation();
+    // Left set only by a request this navigation makes
+    pendingIndexRef.current = null;
+    navigate();
+
+    // A controlled slider only moves once the parent echoes the request back through `index`
+    const requestedIndex = pendingIndexRef.current;
+    const isAwaitingCommit = requestedIndex !== null && (isLooping ? normalizeIndex(requestedIndex, itemCount) : requestedIndex) !== logicalIndex;
+    const promise = new Promise<void>((resolve, reject) => {
+      if (isAwaitingCommit || isAnimatingRef.current) navigationRef.current = { resolve, reject, isAwaitingCommit };
+      else resolve();
+    });
+    // The parent's update, if it makes one, renders together with this one
+    if (isAwaitingCommit) setNavigationCheck((check) => check + 1);
+    // Callers that don't await the result shouldn't get unhandled rejections when they click faster than the track settles
+    promise.catch(() => undefined);
+    return promise;
+  };
+
+  // A navigator only moves when the selection leaves its view, so picking a visible item doesn't shift the strip.
+  // It shows the same items as the main slider, which may show a different number of them at once
+  const revealedIndexRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!isNavigator || !isReady || revealedIndexRef.current === selectedIndex) return;
+
+    revealedIndexRef.current = selectedIndex;
+    if (selectedIndex >= 0 && selectedIndex < itemCount) revealPosition(resolveIndex(selectedIndex));
+  }, [isNavigator, isReady, selectedIndex, itemCount, revealPosition, resolveIndex]);
+
+  // Prop getters; spread them onto the matching elements of whatever markup renders the slider
+  const getRootProps = (): React.HTMLAttributes<HTMLDivElement> => ({
+    role: "region",
+    "aria-roledescription": "carousel",
+    "aria-label": ariaLabel,
+    onMouseEnter: () => {
+      setPreventScroll(true);
+      setIsHovered(true);
+    },
+    onMouseLeave: () => {
+      setPreventScroll(false);
+      setIsHovered(false);
+    },
+    onFocus: () => setIsFocused(true),
+    onBlur: (event) => {
+      if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsFocused(false);
+    },
+  });
+
+  // The viewport is measured and clips the track, so it has to be rendered even before the slider is ready
+  const getViewportProps = (): React.HTMLAttributes<HTMLDivElement> & React.RefAttributes<HTMLDivElement> => ({
+    ref: containerRef,
+    // The query container for the initial CSS layout
+    style: { position: "relative", overflow: "hidden", contain: "paint layout", containerType: initialLayout ? (isVertical ? "size" : "inline-size") : undefined },
+    tabIndex: 0,
+    onKeyDown: handleKeyDown,
+  });
+
+  const getTrackProps = (): React.HTMLAttributes<HTMLDivElement> & { "data-slider-track": string } => ({
+    id: trackId,
+    "data-slider-track": trackId,
+    style: initialLayout
+      ? {
+          display: "flex",
+          flexDirection: isVertical ? "column" : "row",
+          position: "relative",
+          gap: "var(--slide-gap)",
+          [isVertical ? "paddingBlockStart" : "paddingInlineStart"]: "var(--slide-peek)",
+          height: isVertical ? "100%" : "auto",
+        }
+      : {
+          display: "flex",
+          flexDirection: isVertical ? "column" : "row",
+          position: "relative",
+          gap: `${gap}px`,
+          touchAction: enableDrag ? (isVertical ? "pan-x" : "pan-y") : "auto",
+          userSelect: "none",
+          height: isVertical ? "100%" : trackHeight || "auto",
+          transition: heightStrategy === "adaptive" && !isVertical && !prefersReducedMotion ? "height 300ms ease" : undefined,
+          transform: isVertical ? `translateY(${sliderOffset}px)` : `translateX(${axisSign * sliderOffset}px)`,
+        },
+    onPointerDown: handleDragStart,
+    onPointerMove: handleDragMove,
+    onPointerUp: handleDragEnd,
+    onPointerCancel: handleDragEnd,
+    onClickCapture: handleClickCapture,
+    onDragStartCapture: (event) => {
+      // Native image/link dragging would cancel the pointer stream mid-gesture
+      if (enableDrag) event.preventDefault();
+    },
+  });
+
+  // Layers the effect over a slide's layout style, composing its transform with the slide's own translate
+  const applySlideEffect = (position: number, index: number, style: React.CSSProperties): React.CSSProperties => {
+    if (!slideEffect) return style;
+
+    const effectStyle = slideEffect({ index, ...getSlideMotion(position), isVertical, isRtl });
+    return { ...style, ...effectStyle, transform: [style.transform, effectStyle.transform].filter(Boolean).join(" ") || undefined };
+  };
+
+  const getSlideProps = (position: number): React.HTMLAttributes<HTMLDivElement> & { "data-slide-position": number; "data-item-id"?: string | number } => {
+    const index = isLooping ? normalizeIndex(position, itemCount) : position;
+    const item = items[getCells(index)[0]] as T | undefined;
+    const slideProps = {
+      "data-slide-position": position,
+      role: "group",
+      "aria-roledescription": "slide",
+      "aria-label": `${index + 1} of ${itemCount}`,
+      "aria-busy": !item || undefined,
+      onFocus: () => handleSlideFocus(position),
+      ...(isNavigator && item
+        ? {
+            "aria-current": index === selectedIndex ? ("true" as const) : undefined,
+            "data-selected": index === selectedIndex || undefined,
+            tabIndex: 0,
+            onClick: () => group.select(index),
+            onKeyDown: (event: React.KeyboardEvent) => {
+              if (event.key !== "Enter" && event.key !== " ") return;
+              event.preventDefault();
+              group.select(index);
+            },
+          }
+        : {}),
+    };
+
+    if (initialLayout) {
+      return { ...slideProps, id: item ? String(item.id) : undefined, style: { flexShrink: 0, [isVertical ? "height" : "width"]: "var(--slide-size)" } };
+    }
+
+    if (!isPositioned) {
+      return {
+        ...slideProps,
+        id: item ? String(item.id) : undefined,
+        style: applySlideEffect(position, index, { flexShrink: 0, ...(isVertical ? { height: getItemSize() } : isStretched ? { alignSelf: "stretch" } : {}) }),
+      };
+    }
+
+    const start = getPositionStart(position);
+    const size = isAutoSized ? undefined : getPositionSize(position);
+
+    return {
+      ...slideProps,
+      id: item && !isLooping ? String(item.id) : undefined,
+      "data-item-id": item?.id,
+      style: applySlideEffect(
+        position,
+        index,
+        isVertical
+          ? { flexShrink: 0, height: size, width: "100%", transform: `translateY(${start}px)`, position: "absolute", top: 0, left: 0 }
+          : { flexShrink: 0, width: size, transform: `translateX(${axisSign * start}px)`, position: "absolute", [isRtl ? "right" : "left"]: 0, ...(isStretched ? { top: 0, bottom: 0 } : {}) }
+      ),
+    };
+  };
+
+  // Stacks the items of a column when there are several rows
+  const getCellGroupProps = (): React.HTMLAttributes<HTMLDivElement> => ({
+    role: "list",
+    style: { display: "flex", flexDirection: isVertical ? "row" : "column", gap, height: isStretched ? "100%" : undefined },
+  });
+
+  const getCellProps = (): React.HTMLAttributes<HTMLDivElement> => ({
+    role: "listitem",
+    style: isVertical ? { flex: "1 1 0", minWidth: 0 } : { flex: "1 1 auto", minHeight: 0 },
+  });
+
+  // Wraps what a slide renders; it fills stretched slides, and its natural height is what the height strategies measure
+  const getSlideContentProps = (): React.HTMLAttributes<HTMLDivElement> & { "data-slide-content": string } => ({
+    "data-slide-content": "",
+    style: isStretched && !initialLayout ? { height: "100%" } : undefined,
+  });
+
+  // Rendered only until the container is measured; the CSS can't be escaped as text, hence the inner HTML
+  const getInitialStyleProps = (): React.StyleHTMLAttributes<HTMLStyleElement> => ({ dangerouslySetInnerHTML: { __html: initialLayout?.css ?? "" } });
+
+  const getPrevButtonProps = (): React.ButtonHTMLAttributes<HTMLButtonElement> => ({
+    onClick: () => {
+      stopAutoplayOnInteraction();
+      handlePrevious();
+    },
+    disabled: !canScrollPrev,
+    "aria-label": "Previous slide",
+    "aria-controls": trackId,
+  });
+
+  const getNextButtonProps = (): React.ButtonHTMLAttributes<HTMLButtonElement> => ({
+    onClick: () => {
+      stopAutoplayOnInteraction();
+      handleNext();
+    },
+    disabled: !canScrollNext,
+    "aria-label": "Next slide",
+    "aria-controls": trackId,
+  });
+
+  const getPageButtonProps = useCallback(
+    (page: number): React.ButtonHTMLAttributes<HTMLButtonElement> => ({
+      onClick: () => {
+        stopAutoplayOnInteraction();
+        handleScrollToPage(page);
+      },
+      "aria-label": `Go to page ${page + 1}`,
+      "aria-current": page === currentPage ? "true" : undefined,
+      "aria-controls": trackId,
+    }),
+    [stopAutoplayOnInteraction, handleScrollToPage, currentPage, trackId]
+  );
+
+  // Announcements are muted while autoplay is rotating so screen readers aren't interrupted
+  const getLiveRegionProps = (): React.HTMLAttributes<HTMLDivElement> => ({
+    "aria-live": isAutoplayPlaying && !isAutoplayPaused ? "off" : "polite",
+    "aria-atomic": true,
+    children: `Slide ${logicalIndex + 1} of ${itemCount}`,
+  });
+
+  return {
+    // State
+    // Resolved for the current breakpoint
+    config: sliderConfig,
+    isReady,
+    currentIndex: logicalIndex,
+    itemCount,
+    visibleItems,
+    visibleRange,
+    offset: sliderOffset,
+    // Uniform main-axis slot size (a height when vertical)
+    itemWidth: getItemSize(),
+    slides,
+    pageCount,
+    currentPage,
+    isDragging,
+    isLooping,
+    isVertical,
+    isRtl,
+    isPlaying: isAutoplayPlaying,
+    isNavigator,
+    selectedIndex,
+    rows,
+    canScrollPrev,
+    canScrollNext,
+    getVisibleRange,
+    isAnimating: () => isAnimatingRef.current,
+    // Actions; navigation returns a promise as described on SliderRef
+    next: () => trackNavigation(handleNext),
+    previous: () => trackNavigation(handlePrevious),
+    scrollToIndex: (index: number) => trackNavigation(() => scrollToIndex(index)),
+    scrollToItem: (itemId: string | number) => trackNavigation(() => scrollToItem(itemId)),
+    scrollToPage: (page: number) => trackNavigation(() => handleScrollToPage(page)),
+    play: () => setIsAutoplayPlaying(true),
+    pause: () => setIsAutoplayPlaying(false),
+    refresh: measureDimensions,
+    on: events.on,
+    off: events.off,
+    // Prop getters
+    getRootProps,
+    getViewportProps,
+    getInitialStyleProps,
+    getTrackProps,
+    getSlideProps,
+    getSlideContentProps,
+    getCellGroupProps,
+    getCellProps,
+    getPrevButtonProps,
+    getNextButtonProps,
+    getPageButtonProps,
+    getLiveRegionProps,
+  };
+};